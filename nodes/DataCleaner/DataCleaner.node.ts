@@ -3,21 +3,59 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	INodePropertyOptions,
 	IDataObject,
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
+import type {
+	BlockingOptions,
+	BlockingStrategy,
+	ClusteringMode,
+	ComparisonStats,
+	FieldComparator,
+	FieldComparison,
+	FieldMergeRule,
+	FieldScore,
+	KeepOptions,
+	KeepStrategy,
+	MergeRule,
+	PhoneFormat,
+	PhoneValidationCode,
+	PhoneticAlgorithm,
+	SeenRecord,
+	UnicodeNormalizationOptions,
+} from './utils';
 import {
 	deduplicateFuzzy,
-	cleanPhoneNumber,
+	analyzeSimilarity,
+	assignDuplicateClusters,
+	parseReferenceList,
+	findReferenceMatch,
+	findBestMatches,
+	toSeenRecord,
+	pruneSeenRecords,
+	findSeenRecords,
+	normalizeComparedFields,
+	mergeRecords,
+	phoneticKey,
+	doubleMetaphoneKey,
+	isValidE164,
+	resolveCountry,
+	convertVanityNumber,
+	splitPhoneList,
 	toTitleCase,
 	normalizeEmail,
+	normalizeUnicode,
+	isValidEmail,
 	transformObjectKeys,
 	isObject,
 	setNestedProperty,
 	parseName,
+	formalFirstName,
 	parseUsername,
 	parsePhoneNumber,
+	formatPhoneNumber,
 	extractFromText,
 	formatText,
 	parseAddress,
@@ -124,6 +162,260 @@ function getFieldValue(obj: IDataObject, fieldName: string, caseInsensitive: boo
 	return { value: obj[actualFieldName], actualFieldName };
 }
 
+/**
+ * Describes why a duplicate matched its master: raw values, comparator and score per field
+ */
+function explainMatch(
+	records: Record<string, unknown>[],
+	masterIndex: number,
+	duplicateIndex: number,
+	score: number,
+	fieldScores: FieldScore[],
+): IDataObject {
+	return {
+		masterIndex,
+		duplicateIndex,
+		score,
+		fields: fieldScores.map((fieldScore) => ({
+			field: fieldScore.field,
+			masterValue: records[masterIndex][fieldScore.field],
+			duplicateValue: records[duplicateIndex][fieldScore.field],
+			algorithm: fieldScore.comparator,
+			weight: fieldScore.weight,
+			score: fieldScore.score,
+		})),
+	} as IDataObject;
+}
+
+/**
+ * Resolves the calling code of an item from its country field (ISO alpha-2, alpha-3 or name).
+ * Falls back to the default when no field is configured or the field is empty;
+ * countryCode is undefined when the field holds a country that is not recognized.
+ */
+function resolveItemCountry(
+	obj: IDataObject,
+	countryField: string,
+	defaultCountryCode: string,
+	caseInsensitive: boolean,
+): { countryCode: string | undefined; country: string } {
+	if (!countryField) {
+		return { countryCode: defaultCountryCode, country: '' };
+	}
+
+	const { value } = getFieldValue(obj, countryField, caseInsensitive);
+	const country = value === undefined || value === null ? '' : String(value).trim();
+	if (!country) {
+		return { countryCode: defaultCountryCode, country };
+	}
+
+	return { countryCode: resolveCountry(country)?.countryCode, country };
+}
+
+/**
+ * Reads the Normalize Unicode parameters shared by the similarity operations.
+ * Returns undefined when normalization is off.
+ */
+function getUnicodeNormalization(this: IExecuteFunctions): UnicodeNormalizationOptions | undefined {
+	if (!(this.getNodeParameter('normalizeUnicode', 0, false) as boolean)) return undefined;
+
+	const steps = this.getNodeParameter(
+		'unicodeNormalizationSteps',
+		0,
+		['expandUmlauts', 'foldDiacritics', 'stripPunctuation'],
+	) as string[];
+	return {
+		expandUmlauts: steps.includes('expandUmlauts'),
+		foldDiacritics: steps.includes('foldDiacritics'),
+		stripPunctuation: steps.includes('stripPunctuation'),
+	};
+}
+
+/**
+ * Field comparator choices shared by deduplication and record matching rules
+ */
+const FIELD_COMPARATOR_OPTIONS: INodePropertyOptions[] = [
+	{
+		name: 'Address (Parsed)',
+		value: 'address',
+		description: 'Parses both addresses and compares street, city, state and postal code separately',
+	},
+	{
+		name: 'Cosine (Trigrams)',
+		value: 'cosine',
+		description: 'Cosine similarity of character trigrams, tolerant of typos and word order',
+	},
+	{
+		name: 'Damerau-Levenshtein',
+		value: 'damerauLevenshtein',
+		description: 'Edit distance that counts swapped adjacent letters ("Jhon" / "John") as one edit',
+	},
+	{
+		name: 'Date (Tolerance in Days)',
+		value: 'date',
+		description: 'Full score when dates are within the tolerance',
+	},
+	{
+		name: 'Double Metaphone',
+		value: 'doubleMetaphone',
+		description: 'Words sound alike, allowing alternate pronunciations ("Schmidt" = "Smith")',
+	},
+	{
+		name: 'Email (Normalized)',
+		value: 'email',
+		description: 'Normalizes both emails, then compares the local part and domain ("John@GMAIL.com " = "john@gmail.com")',
+	},
+	{
+		name: 'Exact',
+		value: 'exact',
+		description: 'Case-insensitive exact match',
+	},
+	{
+		name: 'Fuzzy (Auto)',
+		value: 'fuzzy',
+		description: 'Jaro-Winkler for short values, Levenshtein for longer ones',
+	},
+	{
+		name: 'Jaccard (Character Bigrams)',
+		value: 'jaccardChar',
+		description: 'Share of character pairs the two values have in common',
+	},
+	{
+		name: 'Jaccard (Words)',
+		value: 'jaccardWord',
+		description: 'Share of distinct words the two values have in common',
+	},
+	{
+		name: 'Jaro-Winkler',
+		value: 'jaroWinkler',
+		description: 'Best for short strings such as names',
+	},
+	{
+		name: 'Levenshtein',
+		value: 'levenshtein',
+		description: 'Edit distance, best for longer strings',
+	},
+	{
+		name: 'Metaphone',
+		value: 'metaphone',
+		description: 'Words sound alike according to English pronunciation rules',
+	},
+	{
+		name: 'Name (Parsed)',
+		value: 'name',
+		description: 'Parses both names, then compares first, middle and last name. Ignores titles; initials match full names.',
+	},
+	{
+		name: 'Numeric (Tolerance)',
+		value: 'numeric',
+		description: 'Full score when numbers are within the tolerance',
+	},
+	{
+		name: 'NYSIIS',
+		value: 'nysiis',
+		description: 'Words sound alike according to the NYSIIS name coding',
+	},
+	{
+		name: 'Phone (Normalized)',
+		value: 'phone',
+		description: 'Formats both numbers to E.164 before comparing ("(555) 000-1111" = "+1 555 000 1111")',
+	},
+	{
+		name: 'Refined Soundex',
+		value: 'refinedSoundex',
+		description: 'Words sound alike according to Refined Soundex (finer-grained than Soundex)',
+	},
+	{
+		name: 'Soundex',
+		value: 'soundex',
+		description: 'Words sound alike according to American Soundex',
+	},
+	{
+		name: 'Token Set',
+		value: 'tokenSet',
+		description: 'Ignores word order and extra words ("Smith, John" = "John Smith")',
+	},
+	{
+		name: 'Token Sort',
+		value: 'tokenSort',
+		description: 'Ignores word order, but extra words still lower the score',
+	},
+];
+
+/**
+ * String similarity algorithms, the comparators that need no per-field settings
+ */
+const STRING_SIMILARITY_OPTIONS: INodePropertyOptions[] = FIELD_COMPARATOR_OPTIONS.filter((option) => [
+	'cosine', 'damerauLevenshtein', 'exact', 'fuzzy', 'jaccardChar', 'jaccardWord',
+	'jaroWinkler', 'levenshtein', 'tokenSet', 'tokenSort',
+].includes(option.value as string));
+
+/**
+ * Phonetic algorithm choices shared by phonetic blocking and phonetic key generation
+ */
+const PHONETIC_ALGORITHM_OPTIONS: INodePropertyOptions[] = [
+	{
+		name: 'Double Metaphone',
+		value: 'doubleMetaphone',
+		description: 'Primary and alternate codes, handles many non-English names (e.g. "Schmidt" → XMT / SMT)',
+	},
+	{
+		name: 'Metaphone',
+		value: 'metaphone',
+		description: 'Variable-length code based on English pronunciation (e.g. "Knight" → NT)',
+	},
+	{
+		name: 'NYSIIS',
+		value: 'nysiis',
+		description: 'New York State Identification and Intelligence System code (e.g. "Schmidt" → SNAD)',
+	},
+	{
+		name: 'Refined Soundex',
+		value: 'refinedSoundex',
+		description: 'Untruncated Soundex variant with finer letter groups (e.g. "Testing" → T6036084)',
+	},
+	{
+		name: 'Soundex',
+		value: 'soundex',
+		description: 'Letter followed by three digits (e.g. "Robert" → R163)',
+	},
+];
+
+/**
+ * Survivorship rule choices shared by the default and per-field merge rule parameters
+ */
+const MERGE_RULE_OPTIONS: INodePropertyOptions[] = [
+	{
+		name: 'Concatenate Unique Values',
+		value: 'concatUnique',
+		description: 'Collect all unique non-empty values into an array',
+	},
+	{
+		name: 'First Non-Empty',
+		value: 'firstNonEmpty',
+		description: 'Use the first non-empty value, starting with the master record',
+	},
+	{
+		name: 'Longest Value',
+		value: 'longest',
+		description: 'Use the longest value',
+	},
+	{
+		name: 'Most Frequent',
+		value: 'mostFrequent',
+		description: 'Use the value that occurs most often',
+	},
+	{
+		name: 'Most Recent',
+		value: 'mostRecent',
+		description: 'Use the value from the record with the latest date',
+	},
+];
+
+/**
+ * Operations that can route removed duplicates or invalid values to a second output
+ */
+const REMOVED_OUTPUT_OPERATIONS = ['deduplicateFuzzy', 'cleanPhoneNumbers', 'normalizeEmail'];
+
 /**
  * DataCleaner Node for n8n
  *
@@ -136,6 +428,8 @@ function getFieldValue(obj: IDataObject, fieldName: string, caseInsensitive: boo
  * - Clean Phone Numbers: Format phone numbers to E.164 standard
  * - Smart Capitalization: Convert text to proper Title Case
  * - Normalize Email: Standardize email addresses
+ * - Generate Phonetic Key: Encode values with Soundex, Metaphone, Double Metaphone, or NYSIIS
+ * - Standardize to Reference List: Snap values to the closest canonical value
  * - Clean Object Keys: Transform JSON keys to snake_case or camelCase
  */
 export class DataCleaner implements INodeType {
@@ -150,8 +444,8 @@ export class DataCleaner implements INodeType {
 		defaults: {
 			name: 'FlowEngine Data Standardize & Clean',
 		},
-		inputs: ['main'],
-		outputs: ['main'],
+		inputs: `={{ $parameter["operation"] === "fuzzyMatchRecords" ? [{ "type": "main", "displayName": "A" }, { "type": "main", "displayName": "B" }] : ["main"] }}`,
+		outputs: `={{ ${JSON.stringify(REMOVED_OUTPUT_OPERATIONS)}.includes($parameter["operation"]) && $parameter["routeRemovedItems"] ? [{ "type": "main", "displayName": "Kept" }, { "type": "main", "displayName": "Removed / Invalid" }] : ["main"] }}`,
 		properties: [
 			// ================================================================
 			// OPERATION SELECTOR
@@ -198,6 +492,18 @@ export class DataCleaner implements INodeType {
 						description: 'Clean and format text with case conversion, truncation, and character removal',
 						action: 'Format text',
 					},
+					{
+						name: 'Fuzzy Match Records',
+						value: 'fuzzyMatchRecords',
+						description: 'Find the best matching record in input B for every item in input A, without a shared ID',
+						action: 'Fuzzy match records',
+					},
+					{
+						name: 'Generate Phonetic Key',
+						value: 'generatePhoneticKey',
+						description: 'Encode a field with Soundex, Metaphone, Double Metaphone, or NYSIIS for sound-alike matching',
+						action: 'Generate phonetic key',
+					},
 					{
 						name: 'Normalize Email',
 						value: 'normalizeEmail',
@@ -240,6 +546,12 @@ export class DataCleaner implements INodeType {
 						description: 'Split text into array or key-value pairs using delimiters',
 						action: 'Split text',
 					},
+					{
+						name: 'Standardize to Reference List',
+						value: 'standardizeToReference',
+						description: 'Snap values with typos to the closest entry of a list of canonical values',
+						action: 'Standardize to reference list',
+					},
 				],
 				default: 'deduplicateFuzzy',
 			},
@@ -279,109 +591,1094 @@ export class DataCleaner implements INodeType {
 				description: 'Similarity threshold (0.0-1.0). Records with similarity above this value are considered duplicates. 0.8 = 80% similar.',
 			},
 			{
-				displayName: 'Output Duplicate Info',
-				name: 'outputDuplicateInfo',
+				displayName: 'Similarity Algorithm',
+				name: 'similarityAlgorithm',
+				type: 'options',
+				options: STRING_SIMILARITY_OPTIONS,
+				default: 'fuzzy',
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+					},
+				},
+				description: 'String similarity algorithm used to compare fields that have no Field Comparison Rule. Fuzzy (Auto) picks Jaro-Winkler or Levenshtein by string length. Numeric, date, phonetic and semantic comparators are set per field in Field Comparison Rules.',
+			},
+			{
+				displayName: 'Normalize Unicode',
+				name: 'normalizeUnicode',
 				type: 'boolean',
 				default: false,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy', 'fuzzyMatchRecords', 'generatePhoneticKey', 'standardizeToReference'],
+					},
+				},
+				description: 'Whether to normalize compared text before scoring or phonetic encoding, so "José" matches "Jose", "Müller" matches "Mueller" and full-width characters match their plain forms. Values compared with the Phone, Email, Numeric, Date, Name or Address comparator are left as they are.',
+			},
+			{
+				displayName: 'Normalization Steps',
+				name: 'unicodeNormalizationSteps',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Expand German Umlauts',
+						value: 'expandUmlauts',
+						description: 'Replace ä, ö, ü and ß with ae, oe, ue and ss',
+					},
+					{
+						name: 'Fold Diacritics',
+						value: 'foldDiacritics',
+						description: 'Remove accents, so é becomes e and ø becomes o',
+					},
+					{
+						name: 'Strip Punctuation',
+						value: 'stripPunctuation',
+						description: 'Remove punctuation; dashes, underscores and slashes become spaces',
+					},
+				],
+				default: ['expandUmlauts', 'foldDiacritics', 'stripPunctuation'],
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy', 'fuzzyMatchRecords', 'generatePhoneticKey', 'standardizeToReference'],
+						normalizeUnicode: [true],
+					},
+				},
+				description: 'Steps applied on top of lowercasing and NFKD compatibility decomposition',
+			},
+			{
+				displayName: 'Clustering Mode',
+				name: 'clusteringMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Average Link',
+						value: 'averageLink',
+						description: 'Like connected components, but clusters only merge if their average cross-pair similarity reaches the threshold',
+					},
+					{
+						name: 'Complete Link',
+						value: 'completeLink',
+						description: 'Every record in a cluster must match every other record in it',
+					},
+					{
+						name: 'Connected Components',
+						value: 'connected',
+						description: 'Transitive: if A matches B and B matches C, all three are one cluster. Order-independent.',
+					},
+					{
+						name: 'Greedy (First Match)',
+						value: 'greedy',
+						description: 'A record joins the first earlier record it matches directly. Results depend on input order.',
+					},
+				],
+				default: 'greedy',
 				displayOptions: {
 					show: {
 						operation: ['deduplicateFuzzy'],
 					},
 				},
-				description: 'Whether to include metadata about removed duplicates in the output',
+				description: 'How matching pairs are grouped into duplicate clusters',
 			},
-
-			// ================================================================
-			// CLEAN PHONE NUMBERS PARAMETERS
-			// ================================================================
 			{
-				displayName: 'Phone Field',
-				name: 'phoneField',
-				type: 'string',
-				default: 'phone',
-				required: true,
+				displayName: 'Field Comparison Rules',
+				name: 'fieldComparisonRules',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
 				displayOptions: {
 					show: {
-						operation: ['cleanPhoneNumbers'],
+						operation: ['deduplicateFuzzy'],
 					},
 				},
-				placeholder: 'phone',
-				description: 'The field name containing the phone number. Supports dot notation for nested fields (e.g., "contact.phone").',
+				placeholder: 'Add Field Rule',
+				description: 'Weight and comparator per field. When set, the weighted score replaces the simple average. Fields to check without a rule use weight 1 and fuzzy matching.',
+				options: [
+					{
+						displayName: 'Rule',
+						name: 'rules',
+						values: [
+							{
+								displayName: 'Comparator',
+								name: 'comparator',
+								type: 'options',
+								options: FIELD_COMPARATOR_OPTIONS,
+								default: 'fuzzy',
+								description: 'How to score this field',
+							},
+							{
+								displayName: 'Field',
+								name: 'field',
+								type: 'string',
+								default: '',
+								placeholder: 'email',
+								description: 'Field the rule applies to',
+							},
+							{
+								displayName: 'Must Match',
+								name: 'mustMatch',
+								type: 'boolean',
+								default: false,
+								description: 'Whether this field alone must reach the fuzzy threshold for records to be considered duplicates',
+							},
+							{
+								displayName: 'Tolerance',
+								name: 'tolerance',
+								type: 'number',
+								typeOptions: {
+									minValue: 0,
+								},
+								default: 0,
+								description: 'Allowed difference for numeric (units) and date (days) comparators. Scores decay to 0 at twice the tolerance.',
+							},
+							{
+								displayName: 'Weight',
+								name: 'weight',
+								type: 'number',
+								typeOptions: {
+									minValue: 0,
+									numberPrecision: 2,
+								},
+								default: 1,
+								description: 'Relative importance of this field in the combined score',
+							},
+						],
+					},
+				],
 			},
 			{
-				displayName: 'Default Country Code',
-				name: 'defaultCountryCode',
-				type: 'string',
-				default: '1',
+				displayName: 'Duplicate Handling',
+				name: 'duplicateHandling',
+				type: 'options',
+				options: [
+					{
+						name: 'Analyze Similarity',
+						value: 'analyze',
+						description: 'Remove nothing; output one report with a histogram of best-match scores and how many records each threshold from 0.70 to 0.99 would remove',
+					},
+					{
+						name: 'Merge Duplicates',
+						value: 'merge',
+						description: 'Combine each group of duplicates into one record using per-field survivorship rules',
+					},
+					{
+						name: 'Remove Duplicates',
+						value: 'remove',
+						description: 'Keep the master record of each group and drop the others',
+					},
+					{
+						name: 'Tag Duplicates',
+						value: 'tag',
+						description: 'Keep all records and add _duplicateClusterId, _isMaster and _similarityToMaster fields',
+					},
+				],
+				default: 'remove',
 				displayOptions: {
 					show: {
-						operation: ['cleanPhoneNumbers'],
+						operation: ['deduplicateFuzzy'],
 					},
 				},
-				placeholder: '1',
-				description: 'Default country code to use when none is detected (without +). "1" for US/Canada, "44" for UK, "91" for India, etc.',
+				description: 'What to do with records identified as duplicates',
 			},
 			{
-				displayName: 'Output Field',
-				name: 'phoneOutputField',
-				type: 'string',
-				default: '',
+				displayName: 'Samples per Bucket',
+				name: 'analysisSampleSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 3,
 				displayOptions: {
 					show: {
-						operation: ['cleanPhoneNumbers'],
+						operation: ['deduplicateFuzzy'],
+						duplicateHandling: ['analyze'],
 					},
 				},
-				placeholder: 'phoneFormatted',
-				description: 'Optional: Save the cleaned phone to a different field. Leave empty to overwrite the original field.',
+				description: 'Maximum number of example pairs shown for each score bucket of the histogram',
 			},
-
-			// ================================================================
-			// SMART CAPITALIZATION PARAMETERS
-			// ================================================================
 			{
-				displayName: 'Fields to Capitalize',
-				name: 'capitalizeFields',
+				displayName: 'Keep Strategy',
+				name: 'keepStrategy',
+				type: 'options',
+				options: [
+					{
+						name: 'First Occurrence',
+						value: 'first',
+						description: 'The first record of each group in input order',
+					},
+					{
+						name: 'Highest Value',
+						value: 'highest',
+						description: 'The record with the largest number in the keep field',
+					},
+					{
+						name: 'Longest Value',
+						value: 'longest',
+						description: 'The record with the longest value in the keep field',
+					},
+					{
+						name: 'Lowest Value',
+						value: 'lowest',
+						description: 'The record with the smallest number in the keep field',
+					},
+					{
+						name: 'Most Complete Record',
+						value: 'mostComplete',
+						description: 'The record with the most non-empty fields',
+					},
+					{
+						name: 'Newest by Date',
+						value: 'newest',
+						description: 'The record with the latest date in the keep field',
+					},
+					{
+						name: 'Oldest by Date',
+						value: 'oldest',
+						description: 'The record with the earliest date in the keep field',
+					},
+				],
+				default: 'first',
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+					},
+				},
+				description: 'Which record of each duplicate group survives as the master. Ties go to the earliest record.',
+			},
+			{
+				displayName: 'Keep Field',
+				name: 'keepField',
 				type: 'string',
 				default: '',
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['smartCapitalization'],
+						operation: ['deduplicateFuzzy'],
+						keepStrategy: ['highest', 'longest', 'lowest', 'newest', 'oldest'],
 					},
 				},
-				placeholder: 'firstName, lastName, city',
-				description: 'Comma-separated list of field names to apply title case. Supports dot notation for nested fields.',
+				placeholder: 'updatedAt',
+				description: 'Field read by the keep strategy. Records without a usable value in it are never preferred.',
 			},
-
-			// ================================================================
-			// NORMALIZE EMAIL PARAMETERS
-			// ================================================================
 			{
-				displayName: 'Email Field',
-				name: 'emailField',
+				displayName: 'Default Merge Rule',
+				name: 'defaultMergeRule',
+				type: 'options',
+				options: MERGE_RULE_OPTIONS,
+				default: 'firstNonEmpty',
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						duplicateHandling: ['merge'],
+					},
+				},
+				description: 'Survivorship rule for fields without a specific merge rule',
+			},
+			{
+				displayName: 'Date Field for Recency',
+				name: 'mergeDateField',
 				type: 'string',
-				default: 'email',
-				required: true,
+				default: '',
 				displayOptions: {
 					show: {
-						operation: ['normalizeEmail'],
+						operation: ['deduplicateFuzzy'],
+						duplicateHandling: ['merge'],
 					},
 				},
-				placeholder: 'email',
-				description: 'The field name containing the email address. Supports dot notation for nested fields.',
+				placeholder: 'updatedAt',
+				description: 'Date field used by the "Most Recent" rule when a field rule does not name its own date field',
 			},
 			{
-				displayName: 'Output Field',
-				name: 'emailOutputField',
+				displayName: 'Field Merge Rules',
+				name: 'mergeRules',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						duplicateHandling: ['merge'],
+					},
+				},
+				placeholder: 'Add Field Rule',
+				description: 'Survivorship rules for specific fields',
+				options: [
+					{
+						displayName: 'Rule',
+						name: 'rules',
+						values: [
+							{
+								displayName: 'Field',
+								name: 'field',
+								type: 'string',
+								default: '',
+								placeholder: 'phone',
+								description: 'Field the rule applies to',
+							},
+							{
+								displayName: 'Rule',
+								name: 'rule',
+								type: 'options',
+								options: MERGE_RULE_OPTIONS,
+								default: 'firstNonEmpty',
+								description: 'How to pick the surviving value',
+							},
+							{
+								displayName: 'Date Field',
+								name: 'dateField',
+								type: 'string',
+								default: '',
+								placeholder: 'updatedAt',
+								description: 'Date field used by the "Most Recent" rule. Leave empty to use the Date Field for Recency.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Blocking Strategy',
+				name: 'blockingStrategy',
+				type: 'options',
+				options: [
+					{
+						name: 'N-Gram Index',
+						value: 'ngram',
+						description: 'Only compare records whose blocking keys share character n-grams',
+					},
+					{
+						name: 'None (Compare All Pairs)',
+						value: 'none',
+						description: 'Compare every record with every other record. Accurate but slow for large inputs.',
+					},
+					{
+						name: 'Phonetic Key',
+						value: 'phonetic',
+						description: 'Only compare records whose blocking keys sound alike',
+					},
+					{
+						name: 'Prefix',
+						value: 'prefix',
+						description: 'Only compare records whose blocking keys start with the same characters',
+					},
+					{
+						name: 'Sorted Neighborhood',
+						value: 'sortedNeighborhood',
+						description: 'Sort by the blocking key and only compare records within a sliding window',
+					},
+				],
+				default: 'none',
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+					},
+				},
+				description: 'How to limit which pairs of records are compared. Use blocking for inputs larger than a few thousand items.',
+			},
+			{
+				displayName: 'Blocking Field',
+				name: 'blockingField',
 				type: 'string',
 				default: '',
 				displayOptions: {
 					show: {
-						operation: ['normalizeEmail'],
+						operation: ['deduplicateFuzzy'],
+					},
+					hide: {
+						blockingStrategy: ['none'],
 					},
 				},
-				placeholder: 'emailNormalized',
-				description: 'Optional: Save the normalized email to a different field. Leave empty to overwrite the original field.',
+				placeholder: 'lastName',
+				description: 'Field used to build the blocking key. Leave empty to use the first field to check.',
+			},
+			{
+				displayName: 'Phonetic Algorithm',
+				name: 'blockingPhoneticAlgorithm',
+				type: 'options',
+				options: PHONETIC_ALGORITHM_OPTIONS,
+				default: 'soundex',
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						blockingStrategy: ['phonetic'],
+					},
+				},
+				description: 'Algorithm used to encode the blocking key',
+			},
+			{
+				displayName: 'Prefix Length',
+				name: 'blockingPrefixLength',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 3,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						blockingStrategy: ['prefix'],
+					},
+				},
+				description: 'Number of leading characters of the blocking key that must be identical',
+			},
+			{
+				displayName: 'Window Size',
+				name: 'blockingWindowSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 2,
+				},
+				default: 10,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						blockingStrategy: ['sortedNeighborhood'],
+					},
+				},
+				description: 'Number of neighboring records (after sorting by the blocking key) each record is compared with',
+			},
+			{
+				displayName: 'N-Gram Size',
+				name: 'blockingNgramSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 3,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						blockingStrategy: ['ngram'],
+					},
+				},
+				description: 'Length of the character n-grams indexed from the blocking key',
+			},
+			{
+				displayName: 'Min Shared N-Grams',
+				name: 'blockingMinSharedNgrams',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 2,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						blockingStrategy: ['ngram'],
+					},
+				},
+				description: 'Minimum number of n-grams two blocking keys must share before the records are compared',
+			},
+			{
+				displayName: 'Output Duplicate Info',
+				name: 'outputDuplicateInfo',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+					},
+				},
+				description: 'Whether to include metadata about removed duplicates in the output',
+			},
+			{
+				displayName: 'Output Match Explanations',
+				name: 'explainMatches',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+					},
+				},
+				description: 'Whether to explain every duplicate match: master index, raw values, algorithm and score per field, and the final weighted score',
+			},
+			{
+				displayName: 'Remember Seen Records',
+				name: 'rememberSeenRecords',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+					},
+				},
+				description: 'Whether to also compare items with records seen in earlier executions of this workflow. Only active (production) executions remember records.',
+			},
+			{
+				displayName: 'Previously Seen Records',
+				name: 'seenRecordHandling',
+				type: 'options',
+				options: [
+					{
+						name: 'Drop',
+						value: 'drop',
+						description: 'Remove items that match a record seen in an earlier execution',
+					},
+					{
+						name: 'Flag',
+						value: 'flag',
+						description: 'Keep the items and add _seenBefore, _firstSeenAt and _seenSimilarity fields',
+					},
+				],
+				default: 'drop',
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						rememberSeenRecords: [true],
+					},
+				},
+				description: 'What to do with items that match a record seen in an earlier execution',
+			},
+			{
+				displayName: 'Retention (Days)',
+				name: 'seenRetentionDays',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 30,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						rememberSeenRecords: [true],
+					},
+				},
+				description: 'How long a record is remembered after it was first seen. 0 remembers records until the maximum size is reached.',
+			},
+			{
+				displayName: 'Max Remembered Records',
+				name: 'seenMaxRecords',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 10000,
+				displayOptions: {
+					show: {
+						operation: ['deduplicateFuzzy'],
+						rememberSeenRecords: [true],
+					},
+				},
+				description: 'Maximum number of remembered records. The oldest records are forgotten first.',
+			},
+
+			// ================================================================
+			// FUZZY MATCH RECORDS PARAMETERS
+			// ================================================================
+			{
+				displayName: 'Match Fields',
+				name: 'matchFields',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['fuzzyMatchRecords'],
+					},
+				},
+				placeholder: 'Add Match Field',
+				description: 'Fields to compare between input A and input B, with weights and comparators',
+				options: [
+					{
+						displayName: 'Field',
+						name: 'fields',
+						values: [
+							{
+								displayName: 'Comparator',
+								name: 'comparator',
+								type: 'options',
+								options: FIELD_COMPARATOR_OPTIONS,
+								default: 'fuzzy',
+								description: 'How to score this field',
+							},
+							{
+								displayName: 'Input A Field',
+								name: 'field',
+								type: 'string',
+								default: '',
+								placeholder: 'companyName',
+								description: 'Field in the items of input A',
+							},
+							{
+								displayName: 'Input B Field',
+								name: 'otherField',
+								type: 'string',
+								default: '',
+								placeholder: 'company',
+								description: 'Field in the items of input B. Leave empty if it has the same name as in input A.',
+							},
+							{
+								displayName: 'Must Match',
+								name: 'mustMatch',
+								type: 'boolean',
+								default: false,
+								description: 'Whether this field alone must reach the match threshold',
+							},
+							{
+								displayName: 'Tolerance',
+								name: 'tolerance',
+								type: 'number',
+								typeOptions: {
+									minValue: 0,
+								},
+								default: 0,
+								description: 'Allowed difference for numeric (units) and date (days) comparators. Scores decay to 0 at twice the tolerance.',
+							},
+							{
+								displayName: 'Weight',
+								name: 'weight',
+								type: 'number',
+								typeOptions: {
+									minValue: 0,
+									numberPrecision: 2,
+								},
+								default: 1,
+								description: 'Relative importance of this field in the combined score',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Match Threshold',
+				name: 'matchThreshold',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					maxValue: 1,
+					numberPrecision: 2,
+				},
+				default: 0.8,
+				displayOptions: {
+					show: {
+						operation: ['fuzzyMatchRecords'],
+					},
+				},
+				description: 'Minimum combined similarity (0.0-1.0) for a record in input B to count as a match',
+			},
+			{
+				displayName: 'Match Mode',
+				name: 'matchMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Best Match Only',
+						value: 'best',
+						description: 'Add the single best match (or null) to every item of input A',
+					},
+					{
+						name: 'Top N Matches',
+						value: 'topN',
+						description: 'Add an array of the best matches to every item of input A',
+					},
+					{
+						name: 'Unmatched Only',
+						value: 'unmatched',
+						description: 'Output only the items of input A that have no match in input B',
+					},
+				],
+				default: 'best',
+				displayOptions: {
+					show: {
+						operation: ['fuzzyMatchRecords'],
+					},
+				},
+				description: 'Which matches to output',
+			},
+			{
+				displayName: 'Max Matches',
+				name: 'matchLimit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 3,
+				displayOptions: {
+					show: {
+						operation: ['fuzzyMatchRecords'],
+						matchMode: ['topN'],
+					},
+				},
+				description: 'Maximum number of matches to add per item',
+			},
+			{
+				displayName: 'Output Field',
+				name: 'matchOutputField',
+				type: 'string',
+				default: 'match',
+				displayOptions: {
+					show: {
+						operation: ['fuzzyMatchRecords'],
+					},
+					hide: {
+						matchMode: ['unmatched'],
+					},
+				},
+				placeholder: 'match',
+				description: 'Field that receives the matched record, its score and per-field scores',
+			},
+
+			// ================================================================
+			// CLEAN PHONE NUMBERS PARAMETERS
+			// ================================================================
+			{
+				displayName: 'Phone Field',
+				name: 'phoneField',
+				type: 'string',
+				default: 'phone',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				placeholder: 'phone',
+				description: 'The field name containing the phone number. Supports dot notation for nested fields (e.g., "contact.phone").',
+			},
+			{
+				displayName: 'Default Country Code',
+				name: 'defaultCountryCode',
+				type: 'string',
+				default: '1',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				placeholder: '1',
+				description: 'Default country code to use when none is detected (without +). "1" for US/Canada, "44" for UK, "91" for India, etc. National numbers of this country lose their trunk prefix, e.g. the leading 0 of "06 12 34 56 78" for "33".',
+			},
+			{
+				displayName: 'Country Field',
+				name: 'phoneCountryField',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				placeholder: 'country',
+				description: 'Optional: Field holding the country of each item as ISO code ("FR", "FRA") or name ("France"). Its calling code and trunk prefix are used instead of the default country code, which only applies when the field is empty.',
+			},
+			{
+				displayName: 'Output Field',
+				name: 'phoneOutputField',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				placeholder: 'phoneFormatted',
+				description: 'Optional: Save the cleaned phone to a different field. Leave empty to overwrite the original field.',
+			},
+			{
+				displayName: 'Convert Vanity Numbers',
+				name: 'convertVanityNumbers',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				description: 'Whether to convert letters to their keypad digits before cleaning, e.g. "1-800-FLOWERS" to +18003569377',
+			},
+			{
+				displayName: 'Vanity Text Field',
+				name: 'phoneVanityField',
+				type: 'string',
+				default: 'phoneVanity',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+						convertVanityNumbers: [true],
+					},
+				},
+				placeholder: 'phoneVanity',
+				description: 'Field that keeps the original vanity text of converted numbers. Leave empty to not keep it.',
+			},
+			{
+				displayName: 'Split Multiple Numbers',
+				name: 'splitMultiplePhones',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				description: 'Whether the field may hold several numbers, e.g. "Home: 555-111-2222 / Cell: 555-333-4444". Each number is cleaned and the field becomes an array of entries with label (home, cell, work, fax, other), phone, extension, type and original text.',
+			},
+			{
+				displayName: 'Primary Mobile Field',
+				name: 'primaryPhoneField',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+						splitMultiplePhones: [true],
+					},
+				},
+				placeholder: 'primaryPhone',
+				description: 'Optional: Field that receives the first mobile number (line type mobile or labelled cell). Leave empty to skip.',
+			},
+			{
+				displayName: 'Output Format',
+				name: 'phoneOutputFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'Custom Pattern',
+						value: 'custom',
+						description: 'Fill a pattern such as (###) ###-#### with the digits',
+					},
+					{
+						name: 'Digits Only',
+						value: 'digits',
+						description: 'Country code and number without symbols, e.g. 15550001111',
+					},
+					{
+						name: 'E.164',
+						value: 'e164',
+						description: 'International standard, e.g. +15550001111',
+					},
+					{
+						name: 'International',
+						value: 'international',
+						description: 'Readable international format, e.g. +1 555 000 1111',
+					},
+					{
+						name: 'National',
+						value: 'national',
+						description: 'Format used inside the country, e.g. (555) 000-1111 or 020 7946 0958',
+					},
+					{
+						name: 'RFC 3966 URI',
+						value: 'rfc3966',
+						description: 'A tel: URI for dialers, e.g. tel:+1-555-000-1111',
+					},
+				],
+				default: 'e164',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				description: 'How cleaned numbers are written. Numbers that cannot be cleaned are left as they are.',
+			},
+			{
+				displayName: 'Pattern',
+				name: 'phoneFormatPattern',
+				type: 'string',
+				default: '(###) ###-####',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+						phoneOutputFormat: ['custom'],
+					},
+				},
+				placeholder: '(###) ###-####',
+				description: 'Each # is replaced by a digit of the national number, or of country code plus national number when the count matches that instead. Numbers that fit neither are written in E.164.',
+			},
+			{
+				displayName: 'Extension Field',
+				name: 'phoneExtensionField',
+				type: 'string',
+				default: 'phoneExtension',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+						phoneOutputFormat: ['digits', 'e164'],
+						splitMultiplePhones: [false],
+					},
+				},
+				placeholder: 'phoneExtension',
+				description: 'Field that receives the extension of numbers that have one (e.g. "ext 12"), as E.164 and digits-only output cannot hold it. Leave empty to drop extensions.',
+			},
+			{
+				displayName: 'Non-Mobile Numbers',
+				name: 'nonMobileHandling',
+				type: 'options',
+				options: [
+					{
+						name: 'Keep',
+						value: 'keep',
+						description: 'Keep every number regardless of its line type',
+					},
+					{
+						name: 'Remove',
+						value: 'remove',
+						description: 'Remove landline, toll-free and premium numbers, or route them to the Removed / Invalid output when it is enabled',
+					},
+				],
+				default: 'keep',
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				description: 'What to do with numbers that are not mobiles, e.g. before an SMS campaign',
+			},
+			{
+				displayName: 'Keep Possible Mobiles',
+				name: 'keepPossibleMobiles',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+						nonMobileHandling: ['remove'],
+					},
+				},
+				description: 'Whether to keep numbers whose line type cannot be told, such as US/Canada numbers (mobiles and landlines share the same ranges) or countries without range data',
+			},
+			{
+				displayName: 'Reject Validation Codes',
+				name: 'rejectValidationCodes',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Invalid Area Code',
+						value: 'INVALID_AREA_CODE',
+						description: 'US/Canada area codes that cannot exist (N11, 0xx, 1xx)',
+					},
+					{
+						name: 'Invalid Country Code',
+						value: 'INVALID_COUNTRY_CODE',
+						description: 'The calling code is not assigned',
+					},
+					{
+						name: 'Not a Number',
+						value: 'NOT_A_NUMBER',
+						description: 'The value contains no digits',
+					},
+					{
+						name: 'Possible but Unverified',
+						value: 'POSSIBLE_BUT_UNVERIFIED',
+						description: 'The length fits the country, but its number ranges are not known',
+					},
+					{
+						name: 'Too Long',
+						value: 'TOO_LONG',
+						description: 'More digits than the country allows',
+					},
+					{
+						name: 'Too Short',
+						value: 'TOO_SHORT',
+						description: 'Fewer digits than the country allows',
+					},
+				],
+				default: [],
+				displayOptions: {
+					show: {
+						operation: ['cleanPhoneNumbers'],
+					},
+				},
+				description: 'Numbers with these validation codes are removed, or routed to the Removed / Invalid output when it is enabled',
+			},
+
+			// ================================================================
+			// SMART CAPITALIZATION PARAMETERS
+			// ================================================================
+			{
+				displayName: 'Fields to Capitalize',
+				name: 'capitalizeFields',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['smartCapitalization'],
+					},
+				},
+				placeholder: 'firstName, lastName, city',
+				description: 'Comma-separated list of field names to apply title case. Supports dot notation for nested fields.',
+			},
+
+			// ================================================================
+			// NORMALIZE EMAIL PARAMETERS
+			// ================================================================
+			{
+				displayName: 'Email Field',
+				name: 'emailField',
+				type: 'string',
+				default: 'email',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['normalizeEmail'],
+					},
+				},
+				placeholder: 'email',
+				description: 'The field name containing the email address. Supports dot notation for nested fields.',
+			},
+			{
+				displayName: 'Output Field',
+				name: 'emailOutputField',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['normalizeEmail'],
+					},
+				},
+				placeholder: 'emailNormalized',
+				description: 'Optional: Save the normalized email to a different field. Leave empty to overwrite the original field.',
+			},
+
+			// ================================================================
+			// GENERATE PHONETIC KEY PARAMETERS
+			// ================================================================
+			{
+				displayName: 'Source Field',
+				name: 'phoneticField',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['generatePhoneticKey'],
+					},
+				},
+				placeholder: 'lastName',
+				description: 'The field to encode. Each word is encoded separately. Supports dot notation for nested fields.',
+			},
+			{
+				displayName: 'Phonetic Algorithm',
+				name: 'phoneticAlgorithm',
+				type: 'options',
+				options: PHONETIC_ALGORITHM_OPTIONS,
+				default: 'soundex',
+				displayOptions: {
+					show: {
+						operation: ['generatePhoneticKey'],
+					},
+				},
+				description: 'Algorithm used to encode the value',
+			},
+			{
+				displayName: 'Output Field',
+				name: 'phoneticOutputField',
+				type: 'string',
+				default: 'phoneticKey',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['generatePhoneticKey'],
+					},
+				},
+				placeholder: 'lastNamePhonetic',
+				description: 'Field to write the phonetic key to. Double Metaphone also writes the alternate key to this field name with an "Alternate" suffix.',
 			},
 
 			// ================================================================
@@ -442,6 +1739,18 @@ export class DataCleaner implements INodeType {
 				placeholder: 'parsed_',
 				description: 'Prefix for output fields (e.g., "parsed_" creates parsed_firstName, parsed_lastName). Leave empty for no prefix.',
 			},
+			{
+				displayName: 'Add Formal First Name',
+				name: 'nameFormalFirstName',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['parseName'],
+					},
+				},
+				description: 'Whether to also output formalFirstName, resolving nicknames to their formal name (e.g., "Bob" becomes "Robert", "Peggy" becomes "Margaret")',
+			},
 
 			// ================================================================
 			// PARSE USERNAME PARAMETERS
@@ -504,6 +1813,31 @@ export class DataCleaner implements INodeType {
 				placeholder: '1',
 				description: 'Default country code if not detected (1=US/CA, 44=UK, 91=India)',
 			},
+			{
+				displayName: 'Country Field',
+				name: 'parsePhoneCountryField',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['parsePhoneNumber'],
+					},
+				},
+				placeholder: 'country',
+				description: 'Optional: Field holding the country of each item as ISO code ("FR", "FRA") or name ("France"). Used instead of the default country code unless the field is empty.',
+			},
+			{
+				displayName: 'Convert Vanity Numbers',
+				name: 'parsePhoneConvertVanity',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['parsePhoneNumber'],
+					},
+				},
+				description: 'Whether to convert letters to their keypad digits before parsing, e.g. "555-CALL-NOW" to (555) 225-5669. The original text is kept in the "vanity" output field.',
+			},
 			{
 				displayName: 'Output Prefix',
 				name: 'parsePhoneOutputPrefix',
@@ -588,6 +1922,18 @@ export class DataCleaner implements INodeType {
 				},
 				description: 'Types of data to extract from the text',
 			},
+			{
+				displayName: 'Convert Vanity Numbers',
+				name: 'extractConvertVanity',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['extractFromText'],
+					},
+				},
+				description: 'Whether to also extract vanity numbers written in capitals (e.g. "1-800-FLOWERS") as digits. The original texts go to the "vanityPhones" output field.',
+			},
 			{
 				displayName: 'Output Prefix',
 				name: 'extractOutputPrefix',
@@ -914,6 +2260,136 @@ export class DataCleaner implements INodeType {
 				description: 'Value to use if conversion fails. Leave empty to keep original.',
 			},
 
+			// ================================================================
+			// STANDARDIZE TO REFERENCE LIST PARAMETERS
+			// ================================================================
+			{
+				displayName: 'Field',
+				name: 'referenceField',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['standardizeToReference'],
+					},
+				},
+				placeholder: 'country',
+				description: 'The field containing the value to standardize. Supports dot notation for nested fields.',
+			},
+			{
+				displayName: 'Reference List',
+				name: 'referenceList',
+				type: 'string',
+				typeOptions: {
+					rows: 6,
+				},
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['standardizeToReference'],
+					},
+				},
+				placeholder: 'United States\nUSA => United States\nGermany\nDeutschland => Germany',
+				description: 'One canonical value per line, or an alias mapping per line written as "alias => canonical value"',
+			},
+			{
+				displayName: 'Match Threshold',
+				name: 'referenceThreshold',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					maxValue: 1,
+					numberPrecision: 2,
+				},
+				default: 0.8,
+				displayOptions: {
+					show: {
+						operation: ['standardizeToReference'],
+					},
+				},
+				description: 'Minimum similarity (0.0-1.0) for a value to be replaced by its closest reference value',
+			},
+			{
+				displayName: 'Similarity Algorithm',
+				name: 'referenceAlgorithm',
+				type: 'options',
+				options: STRING_SIMILARITY_OPTIONS,
+				default: 'fuzzy',
+				displayOptions: {
+					show: {
+						operation: ['standardizeToReference'],
+					},
+				},
+				description: 'String similarity algorithm used to compare values with the reference list',
+			},
+			{
+				displayName: 'Below Threshold',
+				name: 'referenceUnmatchedHandling',
+				type: 'options',
+				options: [
+					{
+						name: 'Flag Item',
+						value: 'flag',
+						description: 'Leave the value unchanged and set _referenceUnmatched to true',
+					},
+					{
+						name: 'Leave Unchanged',
+						value: 'leave',
+						description: 'Leave the value as it is',
+					},
+				],
+				default: 'leave',
+				displayOptions: {
+					show: {
+						operation: ['standardizeToReference'],
+					},
+				},
+				description: 'What to do with values that have no reference match above the threshold',
+			},
+			{
+				displayName: 'Output Field',
+				name: 'referenceOutputField',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['standardizeToReference'],
+					},
+				},
+				placeholder: 'countryStandardized',
+				description: 'Save the standardized value to a different field. Leave empty to overwrite the original field.',
+			},
+			{
+				displayName: 'Score Field',
+				name: 'referenceScoreField',
+				type: 'string',
+				default: '_referenceScore',
+				displayOptions: {
+					show: {
+						operation: ['standardizeToReference'],
+					},
+				},
+				description: 'Field receiving the similarity score of the closest reference value. Leave empty to omit the score.',
+			},
+
+			// ================================================================
+			// REMOVED / INVALID OUTPUT PARAMETERS
+			// ================================================================
+			{
+				displayName: 'Route Removed Items to Second Output',
+				name: 'routeRemovedItems',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: REMOVED_OUTPUT_OPERATIONS,
+					},
+				},
+				description: 'Whether to add a "Removed / Invalid" output that receives removed duplicates and items whose value could not be cleaned, instead of dropping or passing them through',
+			},
+
 			// ================================================================
 			// GLOBAL OPTIONS (for all operations)
 			// ================================================================
@@ -972,15 +2448,20 @@ export class DataCleaner implements INodeType {
 		const items = this.getInputData();
 		const operation = this.getNodeParameter('operation', 0) as string;
 		let returnData: INodeExecutionData[] = [];
+		const removedData: INodeExecutionData[] = [];
 
 		try {
 			switch (operation) {
 				case 'deduplicateFuzzy':
-					returnData = await executeDeduplicateFuzzy.call(this, items);
+					returnData = await executeDeduplicateFuzzy.call(this, items, removedData);
+					break;
+
+				case 'fuzzyMatchRecords':
+					returnData = await executeFuzzyMatchRecords.call(this, items);
 					break;
 
 				case 'cleanPhoneNumbers':
-					returnData = await executeCleanPhoneNumbers.call(this, items);
+					returnData = await executeCleanPhoneNumbers.call(this, items, removedData);
 					break;
 
 				case 'smartCapitalization':
@@ -988,7 +2469,11 @@ export class DataCleaner implements INodeType {
 					break;
 
 				case 'normalizeEmail':
-					returnData = await executeNormalizeEmail.call(this, items);
+					returnData = await executeNormalizeEmail.call(this, items, removedData);
+					break;
+
+				case 'generatePhoneticKey':
+					returnData = await executeGeneratePhoneticKey.call(this, items);
 					break;
 
 				case 'cleanObjectKeys':
@@ -1027,6 +2512,10 @@ export class DataCleaner implements INodeType {
 					returnData = await executeConvertDataType.call(this, items);
 					break;
 
+				case 'standardizeToReference':
+					returnData = await executeStandardizeToReference.call(this, items);
+					break;
+
 				default:
 					throw new NodeOperationError(
 						this.getNode(),
@@ -1046,7 +2535,10 @@ export class DataCleaner implements INodeType {
 			);
 		}
 
-		return [returnData];
+		const routeRemovedItems = REMOVED_OUTPUT_OPERATIONS.includes(operation)
+			&& (this.getNodeParameter('routeRemovedItems', 0, false) as boolean);
+
+		return routeRemovedItems ? [returnData, removedData] : [returnData];
 	}
 }
 
@@ -1063,11 +2555,20 @@ export class DataCleaner implements INodeType {
 async function executeDeduplicateFuzzy(
 	this: IExecuteFunctions,
 	items: INodeExecutionData[],
+	removedData: INodeExecutionData[],
 ): Promise<INodeExecutionData[]> {
 	// Get parameters
 	const fieldsToCheckRaw = this.getNodeParameter('fieldsToCheck', 0) as string;
 	const fuzzyThreshold = this.getNodeParameter('fuzzyThreshold', 0) as number;
+	const similarityAlgorithm = this.getNodeParameter('similarityAlgorithm', 0, 'fuzzy') as FieldComparator;
 	const outputDuplicateInfo = this.getNodeParameter('outputDuplicateInfo', 0) as boolean;
+	const explainMatches = this.getNodeParameter('explainMatches', 0, false) as boolean;
+	const rememberSeenRecords = this.getNodeParameter('rememberSeenRecords', 0, false) as boolean;
+	const clusteringMode = this.getNodeParameter('clusteringMode', 0, 'greedy') as ClusteringMode;
+	const keepStrategy = this.getNodeParameter('keepStrategy', 0, 'first') as KeepStrategy;
+	const blockingStrategy = this.getNodeParameter('blockingStrategy', 0, 'none') as BlockingStrategy;
+	const duplicateHandling = this.getNodeParameter('duplicateHandling', 0, 'remove') as string;
+	const routeRemovedItems = this.getNodeParameter('routeRemovedItems', 0, false) as boolean;
 	const options = this.getNodeParameter('options', 0, {}) as IDataObject;
 	const trackChanges = options.trackChanges as boolean || false;
 
@@ -1092,20 +2593,302 @@ async function executeDeduplicateFuzzy(
 		);
 	}
 
+	// Build per-field comparison rules (fields to check without a rule use the defaults)
+	const fieldRulesRaw = this.getNodeParameter('fieldComparisonRules', 0, {}) as IDataObject;
+	const fieldRules: FieldComparison[] = ((fieldRulesRaw.rules as IDataObject[]) || [])
+		.filter((rule) => (rule.field as string)?.trim())
+		.map((rule) => ({
+			field: (rule.field as string).trim(),
+			weight: (rule.weight as number) ?? 1,
+			comparator: (rule.comparator as FieldComparator) || 'fuzzy',
+			tolerance: (rule.tolerance as number) || 0,
+			mustMatch: (rule.mustMatch as boolean) || false,
+		}));
+
+	let fieldComparisons: FieldComparison[] | undefined;
+	if (fieldRules.length > 0 || similarityAlgorithm !== 'fuzzy') {
+		const rulesByField = new Map(fieldRules.map((rule) => [rule.field, rule]));
+		fieldComparisons = [
+			...fieldsToCheck.map((field) => rulesByField.get(field) ?? { field, comparator: similarityAlgorithm }),
+			...fieldRules.filter((rule) => !fieldsToCheck.includes(rule.field)),
+		];
+
+		if (fieldComparisons.every((comparison) => (comparison.weight ?? 1) === 0)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'At least one compared field must have a weight greater than 0',
+			);
+		}
+	}
+
+	// Build blocking configuration (limits which pairs get scored on large inputs)
+	const blocking: BlockingOptions | undefined = blockingStrategy === 'none'
+		? undefined
+		: {
+			strategy: blockingStrategy,
+			field: (this.getNodeParameter('blockingField', 0, '') as string).trim() || undefined,
+			prefixLength: this.getNodeParameter('blockingPrefixLength', 0, 3) as number,
+			windowSize: this.getNodeParameter('blockingWindowSize', 0, 10) as number,
+			ngramSize: this.getNodeParameter('blockingNgramSize', 0, 3) as number,
+			minSharedNgrams: this.getNodeParameter('blockingMinSharedNgrams', 0, 2) as number,
+			phoneticAlgorithm: this.getNodeParameter('blockingPhoneticAlgorithm', 0, 'soundex') as PhoneticAlgorithm,
+		};
+
+	// Build Unicode normalization configuration (applied to compared text fields only)
+	const normalization = getUnicodeNormalization.call(this);
+
+	// Build keep strategy configuration (which record of each group survives)
+	const keep: KeepOptions = {
+		strategy: keepStrategy,
+		field: (this.getNodeParameter('keepField', 0, '') as string).trim() || undefined,
+	};
+	if (!['first', 'mostComplete'].includes(keep.strategy) && !keep.field) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'A keep field is required for the selected keep strategy',
+		);
+	}
+
 	// Extract JSON data from items (deep clone to avoid mutation)
 	const records = items.map((item) => deepClone(item.json) as Record<string, unknown>);
 
+	// Calibration mode: report the score distribution instead of deduplicating
+	if (duplicateHandling === 'analyze') {
+		const sampleSize = this.getNodeParameter('analysisSampleSize', 0, 3) as number;
+		const fieldsChecked = fieldComparisons
+			? fieldComparisons.map((comparison) => comparison.field)
+			: fieldsToCheck;
+		const comparedValues = (index: number) =>
+			Object.fromEntries(fieldsChecked.map((field) => [field, records[index][field]]));
+
+		const stats: ComparisonStats = { totalPairs: 0, comparisonsMade: 0, comparisonsSkipped: 0 };
+		const analysis = analyzeSimilarity(
+			records,
+			fieldsToCheck,
+			{ blocking, fieldComparisons, clustering: clusteringMode, normalization, stats },
+			sampleSize,
+		);
+
+		return [{
+			json: {
+				recordCount: records.length,
+				recordsWithoutCandidates: analysis.bestMatchScores.filter((score) => score === null).length,
+				fieldsChecked,
+				similarityAlgorithm,
+				unicodeNormalization: normalization,
+				clusteringMode,
+				blockingStrategy,
+				histogram: analysis.histogram.map((bucket) => ({
+					range: `${bucket.from.toFixed(2)}-${bucket.to.toFixed(2)}`,
+					count: bucket.count,
+					samples: bucket.samples.map((sample) => ({
+						indexA: sample.indexA,
+						indexB: sample.indexB,
+						score: sample.score,
+						recordA: comparedValues(sample.indexA),
+						recordB: comparedValues(sample.indexB),
+					})),
+				})),
+				thresholds: analysis.thresholds,
+				comparisonsMade: stats.comparisonsMade,
+				comparisonsSkipped: stats.comparisonsSkipped,
+			} as unknown as IDataObject,
+			pairedItem: items.map((_, i) => ({ item: i })),
+		}];
+	}
+
 	// Perform deduplication using our native algorithm
-	const { deduplicated, removedCount, duplicateGroups } = deduplicateFuzzy(
+	const { deduplicated, removedCount, duplicateGroups, stats } = deduplicateFuzzy(
 		records,
 		fieldsToCheck,
 		fuzzyThreshold,
+		{ blocking, fieldComparisons, clustering: clusteringMode, keep, normalization },
 	);
 
+	// Explain each duplicate against its master, keyed by the duplicate's index
+	const explanations = new Map<number, IDataObject>();
+	if (explainMatches) {
+		for (const group of duplicateGroups) {
+			group.duplicateIndices.forEach((index, k) => {
+				explanations.set(
+					index,
+					explainMatch(records, group.keepIndex, index, group.similarityScores[k], group.fieldScores[k]),
+				);
+			});
+		}
+	}
+
 	// Build return data
-	const returnData: INodeExecutionData[] = deduplicated.map((json) => ({
-		json: json as IDataObject,
-	}));
+	let returnData: INodeExecutionData[];
+
+	if (duplicateHandling === 'merge') {
+		const defaultMergeRule = this.getNodeParameter('defaultMergeRule', 0, 'firstNonEmpty') as MergeRule;
+		const mergeDateField = (this.getNodeParameter('mergeDateField', 0, '') as string).trim();
+		const mergeRulesRaw = this.getNodeParameter('mergeRules', 0, {}) as IDataObject;
+		const mergeRules: FieldMergeRule[] = ((mergeRulesRaw.rules as IDataObject[]) || [])
+			.filter((rule) => (rule.field as string)?.trim())
+			.map((rule) => ({
+				field: (rule.field as string).trim(),
+				rule: rule.rule as MergeRule,
+				dateField: (rule.dateField as string)?.trim() || undefined,
+			}));
+
+		const groupsByMaster = new Map(duplicateGroups.map((group) => [group.keepIndex, group]));
+		const removedIndices = new Set(duplicateGroups.flatMap((group) => group.duplicateIndices));
+
+		returnData = [];
+		for (let i = 0; i < records.length; i++) {
+			if (removedIndices.has(i)) continue;
+
+			const group = groupsByMaster.get(i);
+			if (!group) {
+				returnData.push({ json: records[i] as IDataObject, pairedItem: { item: i } });
+				continue;
+			}
+
+			// Merge master and duplicates, keeping lineage to every source item
+			const sourceIndices = [group.keepIndex, ...group.duplicateIndices];
+			returnData.push({
+				json: mergeRecords(
+					sourceIndices.map((index) => records[index]),
+					mergeRules,
+					defaultMergeRule,
+					mergeDateField || undefined,
+				) as IDataObject,
+				pairedItem: sourceIndices.map((index) => ({ item: index })),
+			});
+		}
+	} else if (duplicateHandling === 'tag') {
+		// Keep every record and stamp its cluster membership for downstream routing
+		const clusterTags = assignDuplicateClusters(records.length, duplicateGroups);
+		returnData = records.map((json, i) => ({
+			json: {
+				...json,
+				_duplicateClusterId: clusterTags[i].clusterId,
+				_isMaster: clusterTags[i].isMaster,
+				_similarityToMaster: clusterTags[i].similarityToMaster,
+				...(explanations.has(i) ? { _matchExplanation: explanations.get(i) } : {}),
+			} as IDataObject,
+			pairedItem: { item: i },
+		}));
+	} else {
+		returnData = deduplicated.map((json) => ({
+			json: json as IDataObject,
+		}));
+	}
+
+	// Surviving records list the explanations of the duplicates they absorbed
+	if (explainMatches && duplicateHandling !== 'tag') {
+		const groupsByMaster = new Map(duplicateGroups.map((group) => [group.keepIndex, group]));
+		const keptIndices = records.map((_, i) => i).filter((i) => !explanations.has(i));
+		keptIndices.forEach((index, k) => {
+			const group = groupsByMaster.get(index);
+			if (group) {
+				returnData[k].json._matchExplanations = group.duplicateIndices
+					.map((duplicateIndex) => explanations.get(duplicateIndex)) as IDataObject[];
+			}
+		});
+	}
+
+	// Route removed duplicates to the second output with a pointer to their master
+	if (routeRemovedItems && duplicateHandling !== 'tag') {
+		const removed = duplicateGroups
+			.flatMap((group) => group.duplicateIndices.map((index, k) => ({
+				index,
+				masterIndex: group.keepIndex,
+				similarity: group.similarityScores[k],
+			})))
+			.sort((a, b) => a.index - b.index);
+
+		for (const { index, masterIndex, similarity } of removed) {
+			removedData.push({
+				json: {
+					...records[index],
+					_removedReason: 'duplicate',
+					_masterIndex: masterIndex,
+					_similarityToMaster: similarity,
+					...(explainMatches ? { _matchExplanation: explanations.get(index) } : {}),
+				} as IDataObject,
+				pairedItem: { item: index },
+			});
+		}
+	}
+
+	// Compare the surviving items with records remembered from earlier executions
+	let seenBeforeCount = 0;
+	let rememberedRecords: number | undefined;
+	if (rememberSeenRecords) {
+		const seenRecordHandling = this.getNodeParameter('seenRecordHandling', 0, 'drop') as string;
+		const retentionDays = this.getNodeParameter('seenRetentionDays', 0, 30) as number;
+		const maxRecords = this.getNodeParameter('seenMaxRecords', 0, 10000) as number;
+		const comparisons = fieldComparisons ?? fieldsToCheck.map((field) => ({ field }));
+		const staticData = this.getWorkflowStaticData('node');
+		const now = Date.now();
+
+		const seen = pruneSeenRecords(
+			(staticData.seenRecords as unknown as SeenRecord[]) ?? [],
+			now,
+			retentionDays * 86400000,
+			maxRecords,
+		);
+		const outputRecords = returnData.map((item) => item.json as Record<string, unknown>);
+		const matchKeys = normalization
+			? normalizeComparedFields(outputRecords, comparisons, normalization)
+			: outputRecords;
+		// Remembered records are blocked like the items of this run (same field, same strategy)
+		const seenBlocking = blocking && { ...blocking, field: blocking.field ?? fieldsToCheck[0] };
+		const matches = findSeenRecords(
+			matchKeys,
+			seen,
+			comparisons,
+			fuzzyThreshold,
+			seenBlocking,
+		);
+
+		// Output items map to input indices: all items when tagging, the kept masters otherwise
+		const removedIndices = new Set(duplicateGroups.flatMap((group) => group.duplicateIndices));
+		const outputIndices = duplicateHandling === 'tag'
+			? records.map((_, i) => i)
+			: records.map((_, i) => i).filter((i) => !removedIndices.has(i));
+
+		const newlySeen: SeenRecord[] = [];
+		const unseenData: INodeExecutionData[] = [];
+		returnData.forEach((item, k) => {
+			const match = matches[k];
+			if (!match) {
+				const seenRecord = toSeenRecord(matchKeys[k], comparisons, now, seenBlocking?.field);
+				if (Object.keys(seenRecord.values).length > 0) newlySeen.push(seenRecord);
+				unseenData.push(item);
+				return;
+			}
+
+			seenBeforeCount++;
+			const seenInfo = {
+				_seenBefore: true,
+				_firstSeenAt: new Date(seen[match.index].seenAt).toISOString(),
+				_seenSimilarity: match.score,
+			};
+
+			if (seenRecordHandling === 'flag') {
+				Object.assign(item.json, seenInfo);
+				unseenData.push(item);
+			} else if (routeRemovedItems) {
+				removedData.push({
+					json: {
+						...item.json,
+						_removedReason: 'seenBefore',
+						...seenInfo,
+					} as IDataObject,
+					pairedItem: item.pairedItem ?? { item: outputIndices[k] },
+				});
+			}
+		});
+		returnData = unseenData;
+
+		const remembered = pruneSeenRecords([...seen, ...newlySeen], now, retentionDays * 86400000, maxRecords);
+		staticData.seenRecords = remembered as unknown as IDataObject[];
+		rememberedRecords = remembered.length;
+	}
 
 	// Optionally add duplicate metadata to the first item
 	if (outputDuplicateInfo && returnData.length > 0) {
@@ -1114,19 +2897,40 @@ async function executeDeduplicateFuzzy(
 			deduplicatedCount: deduplicated.length,
 			removedCount,
 			duplicateGroupsFound: duplicateGroups.length,
-			fieldsChecked: fieldsToCheck,
+			fieldsChecked: fieldComparisons
+				? fieldComparisons.map((comparison) => comparison.field)
+				: fieldsToCheck,
+			fieldWeights: fieldComparisons
+				? fieldComparisons.map((comparison) => ({
+					field: comparison.field,
+					weight: comparison.weight ?? 1,
+					comparator: comparison.comparator ?? 'fuzzy',
+					mustMatch: comparison.mustMatch ?? false,
+				}))
+				: undefined,
 			thresholdUsed: fuzzyThreshold,
+			similarityAlgorithm,
+			unicodeNormalization: normalization,
+			clusteringMode,
+			duplicateHandling,
+			keepStrategy,
+			blockingStrategy,
+			totalPairs: stats.totalPairs,
+			comparisonsMade: stats.comparisonsMade,
+			comparisonsSkipped: stats.comparisonsSkipped,
+			seenBeforeCount: rememberSeenRecords ? seenBeforeCount : undefined,
+			rememberedRecords,
 		} as unknown as IDataObject;
 	}
 
 	// Add changes metadata if tracking is enabled
 	if (trackChanges && returnData.length > 0) {
 		const changes: ChangeRecord[] = [];
-		if (removedCount > 0) {
+		if (returnData.length !== items.length) {
 			changes.push({
 				field: '_records',
 				before: items.length,
-				after: deduplicated.length,
+				after: returnData.length,
 				operation: 'deduplicateFuzzy',
 			});
 		}
@@ -1136,6 +2940,118 @@ async function executeDeduplicateFuzzy(
 	return returnData;
 }
 
+/**
+ * Fuzzy Match Records Handler
+ *
+ * Links every item of input A to the most similar items of input B (record linkage)
+ * using the same weighted field comparison as fuzzy deduplication.
+ */
+async function executeFuzzyMatchRecords(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const candidateItems = this.getInputData(1);
+	const matchFieldsRaw = this.getNodeParameter('matchFields', 0, {}) as IDataObject;
+	const matchThreshold = this.getNodeParameter('matchThreshold', 0) as number;
+	const matchMode = this.getNodeParameter('matchMode', 0) as string;
+	const matchLimit = matchMode === 'topN' ? this.getNodeParameter('matchLimit', 0) as number : 1;
+	const outputField = matchMode === 'unmatched'
+		? ''
+		: (this.getNodeParameter('matchOutputField', 0) as string) || 'match';
+	const options = this.getNodeParameter('options', 0, {}) as IDataObject;
+	const debugMode = options.debugMode as boolean || false;
+
+	const comparisons: FieldComparison[] = ((matchFieldsRaw.fields as IDataObject[]) || [])
+		.filter((rule) => (rule.field as string)?.trim())
+		.map((rule) => ({
+			field: (rule.field as string).trim(),
+			otherField: (rule.otherField as string)?.trim() || undefined,
+			weight: (rule.weight as number) ?? 1,
+			comparator: (rule.comparator as FieldComparator) || 'fuzzy',
+			tolerance: (rule.tolerance as number) || 0,
+			mustMatch: (rule.mustMatch as boolean) || false,
+		}));
+
+	if (comparisons.length === 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'At least one match field must be specified',
+		);
+	}
+
+	if (matchThreshold < 0 || matchThreshold > 1) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Match threshold must be between 0.0 and 1.0',
+		);
+	}
+
+	const candidates = candidateItems.map((item) => item.json as Record<string, unknown>);
+	// Compared text fields are normalized once per side; the original records are output
+	const normalization = getUnicodeNormalization.call(this);
+	const candidateKeys = normalization
+		? normalizeComparedFields(candidates, comparisons, normalization)
+		: candidates;
+	const recordKeys = items.map((item) => item.json as Record<string, unknown>);
+	const matchKeys = normalization
+		? normalizeComparedFields(recordKeys, comparisons, normalization)
+		: recordKeys;
+	const returnData: INodeExecutionData[] = [];
+
+	for (let i = 0; i < items.length; i++) {
+		const item = items[i];
+		const matches = findBestMatches(
+			matchKeys[i],
+			candidateKeys,
+			comparisons,
+			matchThreshold,
+			matchLimit,
+		);
+
+		if (matchMode === 'unmatched') {
+			if (matches.length === 0) {
+				returnData.push({
+					json: deepClone(item.json) as IDataObject,
+					pairedItem: { item: i },
+				});
+			}
+			continue;
+		}
+
+		const matchDetails = matches.map((match) => ({
+			index: match.index,
+			score: match.score,
+			fieldScores: match.fieldScores,
+			record: deepClone(candidates[match.index]),
+		}));
+
+		const newItem: INodeExecutionData = {
+			json: deepClone(item.json) as IDataObject,
+			pairedItem: [
+				{ item: i, input: 0 },
+				...matches.map((match) => ({ item: match.index, input: 1 })),
+			],
+		};
+		newItem.json[outputField] = (matchMode === 'topN'
+			? matchDetails
+			: matchDetails[0] ?? null) as unknown as IDataObject;
+
+		if (debugMode) {
+			newItem.json._debug = {
+				operation: 'fuzzyMatchRecords',
+				candidatesCompared: candidates.length,
+				matchesFound: matches.length,
+				threshold: matchThreshold,
+				itemIndex: i,
+			} as unknown as IDataObject;
+		}
+
+		returnData.push(newItem);
+	}
+
+	return returnData;
+}
+
 /**
  * Clean Phone Numbers Handler
  *
@@ -1145,6 +3061,7 @@ async function executeDeduplicateFuzzy(
 async function executeCleanPhoneNumbers(
 	this: IExecuteFunctions,
 	items: INodeExecutionData[],
+	removedData: INodeExecutionData[],
 ): Promise<INodeExecutionData[]> {
 	const returnData: INodeExecutionData[] = [];
 	const options = this.getNodeParameter('options', 0, {}) as IDataObject;
@@ -1152,12 +3069,25 @@ async function executeCleanPhoneNumbers(
 	const skipUnchanged = options.skipUnchanged as boolean || false;
 	const caseInsensitiveFields = options.caseInsensitiveFields !== false; // Default true
 	const debugMode = options.debugMode as boolean || false;
+	const routeRemovedItems = this.getNodeParameter('routeRemovedItems', 0, false) as boolean;
 
 	for (let i = 0; i < items.length; i++) {
 		const item = items[i];
 		const phoneField = this.getNodeParameter('phoneField', i) as string;
 		const defaultCountryCode = this.getNodeParameter('defaultCountryCode', i) as string;
+		const countryField = this.getNodeParameter('phoneCountryField', i, '') as string;
 		const outputField = this.getNodeParameter('phoneOutputField', i) as string;
+		const convertVanity = this.getNodeParameter('convertVanityNumbers', i, false) as boolean;
+		const splitMultiple = this.getNodeParameter('splitMultiplePhones', i, false) as boolean;
+		const nonMobileHandling = this.getNodeParameter('nonMobileHandling', i, 'keep') as string;
+		const keepPossibleMobiles = this.getNodeParameter('keepPossibleMobiles', i, true) as boolean;
+		const outputFormat = this.getNodeParameter('phoneOutputFormat', i, 'e164') as PhoneFormat;
+		const rejectedCodes = this.getNodeParameter('rejectValidationCodes', i, []) as PhoneValidationCode[];
+
+		// Whether a number of this line type survives the non-mobile filter
+		const keepsLineType = (phoneType: string): boolean => nonMobileHandling !== 'remove'
+			|| phoneType === 'mobile'
+			|| (keepPossibleMobiles && (phoneType === 'fixedOrMobile' || phoneType === 'unknown'));
 
 		// Deep clone the item to avoid mutating the original
 		const newItem: INodeExecutionData = {
@@ -1183,28 +3113,204 @@ async function executeCleanPhoneNumbers(
 			debugInfo.defaultCountryCode = defaultCountryCode;
 		}
 
-		if (phoneValue === undefined || phoneValue === null || actualFieldName === undefined) {
-			// Field not found or null
-			if (trackChanges) {
+		// Take the country of this item from its country field, if one is configured
+		const { countryCode: itemCountryCode, country } = resolveItemCountry(
+			item.json, countryField, defaultCountryCode, caseInsensitiveFields,
+		);
+		if (debugMode && countryField) {
+			debugInfo.country = country;
+			debugInfo.countryCode = itemCountryCode ?? 'NOT RECOGNIZED';
+		}
+
+		if (phoneValue === undefined || phoneValue === null || actualFieldName === undefined) {
+			// Field not found or null
+			if (trackChanges) {
+				changes.push({
+					field: phoneField,
+					before: phoneValue,
+					after: phoneValue,
+					operation: 'cleanPhoneNumbers',
+					status: 'skipped',
+					reason: `Field "${phoneField}" not found or is null. Available keys: ${Object.keys(item.json).join(', ')}`,
+				});
+			}
+		} else if (itemCountryCode === undefined) {
+			// Country given but not recognized: cleaning with the default could produce a wrong number
+			if (routeRemovedItems) {
+				removedData.push({
+					json: {
+						...newItem.json,
+						_removedReason: 'unknownCountry',
+					},
+					pairedItem: item.pairedItem ?? { item: i },
+				});
+				continue;
+			}
+			if (trackChanges) {
+				changes.push({
+					field: phoneField,
+					before: phoneValue,
+					after: phoneValue,
+					operation: 'cleanPhoneNumbers',
+					status: 'skipped',
+					reason: `Country "${country}" in field "${countryField}" is not recognized`,
+				});
+			}
+		} else if (splitMultiple) {
+			const originalValue = String(phoneValue);
+			const pattern = this.getNodeParameter('phoneFormatPattern', i, '') as string;
+
+			// Clean every number of the field; numbers that cannot be cleaned keep their text.
+			// A field without any number ("N/A") is validated as a whole, so it can be rejected
+			const numbers = splitPhoneList(originalValue);
+			const entries = (numbers.length > 0 ? numbers : [{ label: 'other' as const, text: originalValue }]).map(({ label, text }) => {
+				const parsedPhone = parsePhoneNumber(convertVanity ? convertVanityNumber(text) : text, itemCountryCode);
+				const isValid = isValidE164(parsedPhone.e164);
+				return {
+					label,
+					phone: isValid ? formatPhoneNumber(parsedPhone, outputFormat, pattern) : text,
+					extension: parsedPhone.extension,
+					type: parsedPhone.type,
+					isValid,
+					validationCode: parsedPhone.validation.code,
+					original: text,
+				};
+			});
+
+			// Drop numbers with rejected validation codes, then route fields without any usable
+			// number to the "Removed / Invalid" output untouched
+			const acceptedEntries = entries.filter((entry) => !rejectedCodes.includes(entry.validationCode));
+			const noneUsable = routeRemovedItems && !acceptedEntries.some((entry) => entry.isValid);
+			if (noneUsable || (acceptedEntries.length === 0 && entries.length > 0)) {
+				if (routeRemovedItems) {
+					removedData.push({
+						json: {
+							...newItem.json,
+							_removedReason: 'invalidPhone',
+							_validationCode: entries.map((entry) => entry.validationCode),
+						},
+						pairedItem: item.pairedItem ?? { item: i },
+					});
+				}
+				continue;
+			}
+
+			// Drop numbers that are not mobiles; remove (or route) the item when none is left
+			const keptEntries = acceptedEntries.filter((entry) => keepsLineType(entry.type));
+			if (keptEntries.length === 0 && acceptedEntries.length > 0) {
+				if (routeRemovedItems) {
+					removedData.push({
+						json: {
+							...newItem.json,
+							_removedReason: 'notMobile',
+							_phoneType: acceptedEntries.map((entry) => entry.type),
+						},
+						pairedItem: item.pairedItem ?? { item: i },
+					});
+				}
+				continue;
+			}
+
+			// Record change with appropriate status: the field counts as changed when a number
+			// was dropped or written differently from how it was given
+			const isChanged = keptEntries.length !== entries.length
+				|| keptEntries.some((entry) => entry.phone !== entry.original);
+			if (isChanged) {
 				changes.push({
-					field: phoneField,
-					before: phoneValue,
-					after: phoneValue,
+					field: targetField,
+					before: originalValue,
+					after: keptEntries,
+					operation: 'cleanPhoneNumbers',
+					status: 'changed',
+				});
+			} else if (trackChanges) {
+				changes.push({
+					field: targetField,
+					before: originalValue,
+					after: keptEntries,
 					operation: 'cleanPhoneNumbers',
 					status: 'skipped',
-					reason: `Field "${phoneField}" not found or is null. Available keys: ${Object.keys(item.json).join(', ')}`,
+					reason: 'Phones already in correct format',
+				});
+			}
+			if (targetField.includes('.')) {
+				setNestedProperty(newItem.json as Record<string, unknown>, targetField, keptEntries);
+			} else {
+				newItem.json[targetField] = keptEntries as unknown as IDataObject[];
+			}
+
+			// Promote the first mobile to the primary field
+			const primaryField = this.getNodeParameter('primaryPhoneField', i, '') as string;
+			const primary = keptEntries.find((entry) => entry.isValid && (entry.type === 'mobile' || entry.label === 'cell'));
+			if (primaryField && primary) {
+				if (primaryField.includes('.')) {
+					setNestedProperty(newItem.json as Record<string, unknown>, primaryField, primary.phone);
+				} else {
+					newItem.json[primaryField] = primary.phone;
+				}
+				changes.push({
+					field: primaryField,
+					before: null,
+					after: primary.phone,
+					operation: 'cleanPhoneNumbers',
+					status: 'changed',
 				});
 			}
 		} else {
 			const originalValue = String(phoneValue);
-			const cleanedPhone = cleanPhoneNumber(originalValue, defaultCountryCode);
+			const phoneText = convertVanity ? convertVanityNumber(originalValue) : originalValue;
+			// The extension is parsed apart from the number, so it never joins the E.164 digits
+			const parsedPhone = parsePhoneNumber(phoneText, itemCountryCode);
+			const isCleaned = isValidE164(parsedPhone.e164);
+			const validationCode = parsedPhone.validation.code;
+
+			// Route unparseable numbers to the "Removed / Invalid" output untouched;
+			// numbers with a rejected validation code are removed even without routing
+			const isRejected = rejectedCodes.includes(validationCode);
+			if ((routeRemovedItems && !isCleaned) || isRejected) {
+				if (routeRemovedItems) {
+					removedData.push({
+						json: {
+							...newItem.json,
+							_removedReason: 'invalidPhone',
+							_validationCode: validationCode,
+						},
+						pairedItem: item.pairedItem ?? { item: i },
+					});
+				}
+				continue;
+			}
+
+			// Remove (or route) numbers that are not mobiles
+			if (!keepsLineType(parsedPhone.type)) {
+				if (routeRemovedItems) {
+					removedData.push({
+						json: {
+							...newItem.json,
+							_removedReason: 'notMobile',
+							_phoneType: parsedPhone.type,
+						},
+						pairedItem: item.pairedItem ?? { item: i },
+					});
+				}
+				continue;
+			}
+
+			// Write valid numbers in the requested format
+			const formattedPhone = isCleaned
+				? formatPhoneNumber(
+					parsedPhone,
+					outputFormat,
+					this.getNodeParameter('phoneFormatPattern', i, '') as string,
+				)
+				: phoneText;
 
 			// Record change with appropriate status
-			if (cleanedPhone !== originalValue) {
+			if (formattedPhone !== originalValue) {
 				changes.push({
 					field: targetField,
 					before: originalValue,
-					after: cleanedPhone,
+					after: formattedPhone,
 					operation: 'cleanPhoneNumbers',
 					status: 'changed',
 				});
@@ -1212,7 +3318,7 @@ async function executeCleanPhoneNumbers(
 				changes.push({
 					field: targetField,
 					before: originalValue,
-					after: cleanedPhone,
+					after: formattedPhone,
 					operation: 'cleanPhoneNumbers',
 					status: 'skipped',
 					reason: 'Phone already in correct format',
@@ -1221,9 +3327,45 @@ async function executeCleanPhoneNumbers(
 
 			// Set the cleaned value
 			if (targetField.includes('.')) {
-				setNestedProperty(newItem.json as Record<string, unknown>, targetField, cleanedPhone);
+				setNestedProperty(newItem.json as Record<string, unknown>, targetField, formattedPhone);
 			} else {
-				newItem.json[targetField] = cleanedPhone;
+				newItem.json[targetField] = formattedPhone;
+			}
+
+			// E.164 and digits-only output cannot hold the extension, so it gets its own field
+			const extensionField = ['digits', 'e164'].includes(outputFormat)
+				? this.getNodeParameter('phoneExtensionField', i, 'phoneExtension') as string
+				: '';
+			if (extensionField && isCleaned && parsedPhone.extension) {
+				if (extensionField.includes('.')) {
+					setNestedProperty(newItem.json as Record<string, unknown>, extensionField, parsedPhone.extension);
+				} else {
+					newItem.json[extensionField] = parsedPhone.extension;
+				}
+				changes.push({
+					field: extensionField,
+					before: null,
+					after: parsedPhone.extension,
+					operation: 'cleanPhoneNumbers',
+					status: 'changed',
+				});
+			}
+
+			// Keep the original text of converted vanity numbers
+			const vanityField = convertVanity ? this.getNodeParameter('phoneVanityField', i, '') as string : '';
+			if (vanityField && phoneText !== originalValue) {
+				if (vanityField.includes('.')) {
+					setNestedProperty(newItem.json as Record<string, unknown>, vanityField, originalValue);
+				} else {
+					newItem.json[vanityField] = originalValue;
+				}
+				changes.push({
+					field: vanityField,
+					before: null,
+					after: originalValue,
+					operation: 'cleanPhoneNumbers',
+					status: 'changed',
+				});
 			}
 		}
 
@@ -1415,6 +3557,7 @@ async function executeSmartCapitalization(
 async function executeNormalizeEmail(
 	this: IExecuteFunctions,
 	items: INodeExecutionData[],
+	removedData: INodeExecutionData[],
 ): Promise<INodeExecutionData[]> {
 	const returnData: INodeExecutionData[] = [];
 	const options = this.getNodeParameter('options', 0, {}) as IDataObject;
@@ -1422,6 +3565,7 @@ async function executeNormalizeEmail(
 	const skipUnchanged = options.skipUnchanged as boolean || false;
 	const caseInsensitiveFields = options.caseInsensitiveFields !== false; // Default true
 	const debugMode = options.debugMode as boolean || false;
+	const routeRemovedItems = this.getNodeParameter('routeRemovedItems', 0, false) as boolean;
 
 	for (let i = 0; i < items.length; i++) {
 		const item = items[i];
@@ -1476,6 +3620,18 @@ async function executeNormalizeEmail(
 		} else {
 			const normalizedEmail = normalizeEmail(emailValue);
 
+			// Route invalid addresses to the "Removed / Invalid" output untouched
+			if (routeRemovedItems && !isValidEmail(normalizedEmail)) {
+				removedData.push({
+					json: {
+						...newItem.json,
+						_removedReason: 'invalidEmail',
+					},
+					pairedItem: item.pairedItem ?? { item: i },
+				});
+				continue;
+			}
+
 			// Record change with appropriate status
 			if (normalizedEmail !== emailValue) {
 				changes.push({
@@ -1536,6 +3692,116 @@ async function executeNormalizeEmail(
 	return returnData;
 }
 
+/**
+ * Generate Phonetic Key Handler
+ *
+ * Encodes a field with a phonetic algorithm so sound-alike values share a key.
+ */
+async function executeGeneratePhoneticKey(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const options = this.getNodeParameter('options', 0, {}) as IDataObject;
+	const trackChanges = options.trackChanges as boolean || false;
+	const caseInsensitiveFields = options.caseInsensitiveFields !== false; // Default true
+	const debugMode = options.debugMode as boolean || false;
+	const normalization = getUnicodeNormalization.call(this);
+
+	for (let i = 0; i < items.length; i++) {
+		const item = items[i];
+		const sourceField = this.getNodeParameter('phoneticField', i) as string;
+		const algorithm = this.getNodeParameter('phoneticAlgorithm', i) as PhoneticAlgorithm;
+		const outputField = this.getNodeParameter('phoneticOutputField', i) as string;
+
+		// Deep clone the item
+		const newItem: INodeExecutionData = {
+			json: deepClone(item.json) as IDataObject,
+			pairedItem: item.pairedItem,
+		};
+
+		const changes: ChangeRecord[] = [];
+		const debugInfo: IDataObject = {};
+
+		// Use case-insensitive field lookup
+		const { value: sourceValue, actualFieldName } = getFieldValue(item.json, sourceField, caseInsensitiveFields);
+
+		if (debugMode) {
+			debugInfo.requestedField = sourceField;
+			debugInfo.actualFieldName = actualFieldName || 'NOT FOUND';
+			debugInfo.availableKeys = Object.keys(item.json);
+			debugInfo.valueFound = sourceValue !== undefined;
+			debugInfo.valueType = sourceValue === undefined ? 'undefined' : typeof sourceValue;
+			debugInfo.caseInsensitiveEnabled = caseInsensitiveFields;
+			debugInfo.algorithm = algorithm;
+		}
+
+		if (typeof sourceValue === 'string' || typeof sourceValue === 'number') {
+			const text = normalization ? normalizeUnicode(String(sourceValue), normalization) : String(sourceValue);
+			const fieldsAdded = [{ field: outputField, value: phoneticKey(text, algorithm) }];
+
+			// Double Metaphone also provides an alternate pronunciation per word
+			if (algorithm === 'doubleMetaphone') {
+				fieldsAdded.push({
+					field: `${outputField}Alternate`,
+					value: doubleMetaphoneKey(text).alternate,
+				});
+			}
+
+			for (const { field, value } of fieldsAdded) {
+				if (field.includes('.')) {
+					setNestedProperty(newItem.json as Record<string, unknown>, field, value);
+				} else {
+					newItem.json[field] = value;
+				}
+				if (value) {
+					changes.push({
+						field,
+						before: null,
+						after: value,
+						operation: 'generatePhoneticKey',
+						status: 'changed',
+					});
+				}
+			}
+		} else if (trackChanges) {
+			changes.push({
+				field: sourceField,
+				before: sourceValue,
+				after: undefined,
+				operation: 'generatePhoneticKey',
+				status: 'skipped',
+				reason: actualFieldName === undefined
+					? `Field "${sourceField}" not found. Available keys: ${Object.keys(item.json).join(', ')}`
+					: `Field "${actualFieldName}" is not a string (type: ${typeof sourceValue})`,
+			});
+		}
+
+		// Add changes metadata if tracking is enabled
+		if (trackChanges) {
+			newItem.json._changes = changes as unknown as IDataObject;
+			newItem.json._changesSummary = {
+				changed: changes.filter(c => c.status === 'changed').length,
+				skipped: changes.filter(c => c.status === 'skipped').length,
+				total: changes.length,
+			} as unknown as IDataObject;
+		}
+
+		// Add debug info if debug mode is enabled
+		if (debugMode) {
+			newItem.json._debug = {
+				operation: 'generatePhoneticKey',
+				...debugInfo,
+				itemIndex: i,
+			} as unknown as IDataObject;
+		}
+
+		returnData.push(newItem);
+	}
+
+	return returnData;
+}
+
 /**
  * Clean Object Keys Handler
  *
@@ -1622,6 +3888,7 @@ async function executeParseName(
 		const item = items[i];
 		const nameField = this.getNodeParameter('nameField', i) as string;
 		const outputPrefix = this.getNodeParameter('nameOutputPrefix', i) as string;
+		const addFormalFirstName = this.getNodeParameter('nameFormalFirstName', i, false) as boolean;
 
 		// Deep clone the item
 		const newItem: INodeExecutionData = {
@@ -1658,6 +3925,10 @@ async function executeParseName(
 				{ field: `${outputPrefix}fullName`, value: parsed.full },
 			];
 
+			if (addFormalFirstName) {
+				fieldsAdded.push({ field: `${outputPrefix}formalFirstName`, value: formalFirstName(parsed.firstName) });
+			}
+
 			for (const { field, value } of fieldsAdded) {
 				newItem.json[field] = value;
 				if (value) {
@@ -1830,6 +4101,8 @@ async function executeParsePhoneNumber(
 		const item = items[i];
 		const phoneField = this.getNodeParameter('parsePhoneField', i) as string;
 		const defaultCountry = this.getNodeParameter('parsePhoneDefaultCountry', i) as string;
+		const countryField = this.getNodeParameter('parsePhoneCountryField', i, '') as string;
+		const convertVanity = this.getNodeParameter('parsePhoneConvertVanity', i, false) as boolean;
 		const outputPrefix = this.getNodeParameter('parsePhoneOutputPrefix', i) as string;
 
 		// Deep clone the item
@@ -1853,8 +4126,20 @@ async function executeParsePhoneNumber(
 			debugInfo.caseInsensitiveEnabled = caseInsensitiveFields;
 		}
 
-		if (phoneValue !== undefined && phoneValue !== null && actualFieldName !== undefined) {
-			const parsed = parsePhoneNumber(String(phoneValue), defaultCountry);
+		// Take the country of this item from its country field, if one is configured
+		const { countryCode, country } = resolveItemCountry(
+			item.json, countryField, defaultCountry, caseInsensitiveFields,
+		);
+		if (debugMode && countryField) {
+			debugInfo.country = country;
+			debugInfo.countryCode = countryCode ?? 'NOT RECOGNIZED';
+		}
+		const phoneFound = phoneValue !== undefined && phoneValue !== null && actualFieldName !== undefined;
+
+		if (phoneFound && countryCode !== undefined) {
+			const phoneText = String(phoneValue);
+			const convertedText = convertVanity ? convertVanityNumber(phoneText) : phoneText;
+			const parsed = parsePhoneNumber(convertedText, countryCode);
 
 			// Add parsed fields with prefix
 			const fieldsAdded = [
@@ -1862,11 +4147,18 @@ async function executeParsePhoneNumber(
 				{ field: `${outputPrefix}national`, value: parsed.national },
 				{ field: `${outputPrefix}international`, value: parsed.international },
 				{ field: `${outputPrefix}countryCode`, value: parsed.countryCode },
+				{ field: `${outputPrefix}region`, value: parsed.region },
 				{ field: `${outputPrefix}areaCode`, value: parsed.areaCode },
 				{ field: `${outputPrefix}localNumber`, value: parsed.localNumber },
 				{ field: `${outputPrefix}extension`, value: parsed.extension },
+				{ field: `${outputPrefix}type`, value: parsed.type },
 				{ field: `${outputPrefix}isValid`, value: parsed.isValid },
+				{ field: `${outputPrefix}validationCode`, value: parsed.validation.code },
+				{ field: `${outputPrefix}validationMessage`, value: parsed.validation.message },
 			];
+			if (convertVanity) {
+				fieldsAdded.push({ field: `${outputPrefix}vanity`, value: convertedText !== phoneText ? phoneText : '' });
+			}
 
 			for (const { field, value } of fieldsAdded) {
 				newItem.json[field] = value as IDataObject[keyof IDataObject];
@@ -1887,7 +4179,9 @@ async function executeParsePhoneNumber(
 				after: undefined,
 				operation: 'parsePhoneNumber',
 				status: 'skipped',
-				reason: `Field "${phoneField}" not found or is null. Available keys: ${Object.keys(item.json).join(', ')}`,
+				reason: phoneFound
+					? `Country "${country}" in field "${countryField}" is not recognized`
+					: `Field "${phoneField}" not found or is null. Available keys: ${Object.keys(item.json).join(', ')}`,
 			});
 		}
 
@@ -2042,6 +4336,7 @@ async function executeExtractFromText(
 		const textField = this.getNodeParameter('extractTextField', i) as string;
 		const extractTypes = this.getNodeParameter('extractTypes', i) as string[];
 		const outputPrefix = this.getNodeParameter('extractOutputPrefix', i) as string;
+		const convertVanity = this.getNodeParameter('extractConvertVanity', i, false) as boolean;
 
 		// Deep clone the item
 		const newItem: INodeExecutionData = {
@@ -2065,10 +4360,13 @@ async function executeExtractFromText(
 		}
 
 		if (typeof textValue === 'string') {
-			const extracted = extractFromText(textValue);
+			const extracted = extractFromText(textValue, { convertVanity });
 
-			// Add only the requested extraction types
-			for (const type of extractTypes) {
+			// Add only the requested extraction types, with the vanity texts next to the phones
+			const outputTypes = convertVanity && extractTypes.includes('phones')
+				? [...extractTypes, 'vanityPhones']
+				: extractTypes;
+			for (const type of outputTypes) {
 				if (type in extracted) {
 					const field = `${outputPrefix}${type}`;
 					const value = extracted[type as keyof typeof extracted];
@@ -2538,3 +4836,153 @@ async function executeConvertDataType(
 
 	return returnData;
 }
+
+/**
+ * Standardize to Reference List Handler
+ *
+ * Replaces each value with the closest canonical value of a reference list.
+ */
+async function executeStandardizeToReference(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const options = this.getNodeParameter('options', 0, {}) as IDataObject;
+	const trackChanges = options.trackChanges as boolean || false;
+	const skipUnchanged = options.skipUnchanged as boolean || false;
+	const caseInsensitiveFields = options.caseInsensitiveFields !== false; // Default true
+	const debugMode = options.debugMode as boolean || false;
+
+	// The reference list is the same for every item, so it is parsed once
+	const referenceList = parseReferenceList(this.getNodeParameter('referenceList', 0) as string);
+	const normalization = getUnicodeNormalization.call(this);
+	if (referenceList.length === 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'The reference list must contain at least one value',
+		);
+	}
+
+	for (let i = 0; i < items.length; i++) {
+		const item = items[i];
+		const sourceField = this.getNodeParameter('referenceField', i) as string;
+		const threshold = this.getNodeParameter('referenceThreshold', i) as number;
+		const algorithm = this.getNodeParameter('referenceAlgorithm', i, 'fuzzy') as FieldComparator;
+		const unmatchedHandling = this.getNodeParameter('referenceUnmatchedHandling', i, 'leave') as string;
+		const outputField = this.getNodeParameter('referenceOutputField', i, '') as string;
+		const scoreField = this.getNodeParameter('referenceScoreField', i, '_referenceScore') as string;
+
+		// Deep clone the item
+		const newItem: INodeExecutionData = {
+			json: deepClone(item.json) as IDataObject,
+			pairedItem: item.pairedItem,
+		};
+
+		const changes: ChangeRecord[] = [];
+		const debugInfo: IDataObject = {};
+
+		// Use case-insensitive field lookup
+		const { value: sourceValue, actualFieldName } = getFieldValue(item.json, sourceField, caseInsensitiveFields);
+		const targetField = outputField || actualFieldName || sourceField;
+
+		if (debugMode) {
+			debugInfo.requestedField = sourceField;
+			debugInfo.actualFieldName = actualFieldName || 'NOT FOUND';
+			debugInfo.availableKeys = Object.keys(item.json);
+			debugInfo.valueFound = sourceValue !== undefined;
+			debugInfo.valueType = sourceValue === undefined ? 'undefined' : typeof sourceValue;
+			debugInfo.caseInsensitiveEnabled = caseInsensitiveFields;
+			debugInfo.targetField = targetField;
+			debugInfo.referenceEntries = referenceList.length;
+		}
+
+		if (typeof sourceValue === 'string' || typeof sourceValue === 'number') {
+			const match = findReferenceMatch(String(sourceValue), referenceList, algorithm, normalization);
+			const isMatch = match !== null && match.score >= threshold;
+			const standardizedValue = isMatch ? match.canonical : sourceValue;
+
+			if (debugMode) {
+				debugInfo.closestMatch = match ? match.matchedValue : null;
+				debugInfo.closestCanonical = match ? match.canonical : null;
+			}
+
+			if (standardizedValue !== sourceValue) {
+				changes.push({
+					field: targetField,
+					before: sourceValue,
+					after: standardizedValue,
+					operation: 'standardizeToReference',
+					status: 'changed',
+				});
+			} else if (trackChanges) {
+				changes.push({
+					field: targetField,
+					before: sourceValue,
+					after: standardizedValue,
+					operation: 'standardizeToReference',
+					status: 'skipped',
+					reason: isMatch
+						? 'Value already matches the reference list'
+						: `No reference value reached the threshold (best score: ${match ? match.score.toFixed(2) : 0})`,
+				});
+			}
+
+			if (targetField.includes('.')) {
+				setNestedProperty(newItem.json as Record<string, unknown>, targetField, standardizedValue);
+			} else {
+				newItem.json[targetField] = standardizedValue;
+			}
+			if (scoreField) {
+				const score = match ? match.score : 0;
+				if (scoreField.includes('.')) {
+					setNestedProperty(newItem.json as Record<string, unknown>, scoreField, score);
+				} else {
+					newItem.json[scoreField] = score;
+				}
+			}
+			if (!isMatch && unmatchedHandling === 'flag') {
+				newItem.json._referenceUnmatched = true;
+			}
+		} else if (trackChanges) {
+			changes.push({
+				field: sourceField,
+				before: sourceValue,
+				after: undefined,
+				operation: 'standardizeToReference',
+				status: 'skipped',
+				reason: actualFieldName === undefined
+					? `Field "${sourceField}" not found. Available keys: ${Object.keys(item.json).join(', ')}`
+					: `Field "${actualFieldName}" is not a string (type: ${typeof sourceValue})`,
+			});
+		}
+
+		// Skip unchanged items if option is enabled
+		const actualChanges = changes.filter(c => c.status === 'changed');
+		if (skipUnchanged && actualChanges.length === 0) {
+			continue;
+		}
+
+		// Add changes metadata if tracking is enabled
+		if (trackChanges) {
+			newItem.json._changes = changes as unknown as IDataObject;
+			newItem.json._changesSummary = {
+				changed: actualChanges.length,
+				skipped: changes.filter(c => c.status === 'skipped').length,
+				total: changes.length,
+			} as unknown as IDataObject;
+		}
+
+		// Add debug info if debug mode is enabled
+		if (debugMode) {
+			newItem.json._debug = {
+				operation: 'standardizeToReference',
+				...debugInfo,
+				itemIndex: i,
+			} as unknown as IDataObject;
+		}
+
+		returnData.push(newItem);
+	}
+
+	return returnData;
+}
@@ -15,6 +15,91 @@
  * All algorithms are thoroughly documented and tested for production use.
  */
 
+// ============================================================================
+// UNICODE NORMALIZATION
+// ============================================================================
+
+/**
+ * Steps applied by {@link normalizeUnicode}. Every step is on unless disabled.
+ */
+export interface UnicodeNormalizationOptions {
+	/** Replace ä, ö, ü and ß with ae, oe, ue and ss (default: true) */
+	expandUmlauts?: boolean;
+	/** Remove accents and other combining marks after decomposition (default: true) */
+	foldDiacritics?: boolean;
+	/** Remove punctuation; dashes, underscores and slashes become spaces (default: true) */
+	stripPunctuation?: boolean;
+}
+
+/**
+ * German umlauts and sharp s, expanded to their conventional two-letter spellings.
+ */
+const UMLAUT_EXPANSIONS: Record<string, string> = { ä: 'ae', ö: 'oe', ü: 'ue', ß: 'ss' };
+
+/**
+ * Letters that carry no combining mark after decomposition, folded to plain Latin.
+ */
+const FOLDED_LETTERS: Record<string, string> = {
+	æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i', ß: 'ss',
+};
+
+/**
+ * Approximates extended grapheme clusters: a base character with its combining marks and
+ * emoji modifiers, zero-width-joiner sequences, regional indicator pairs (flags) and CRLF.
+ */
+const GRAPHEME_PATTERN =
+	/\r\n|[\u{1F1E6}-\u{1F1FF}]{2}|[^\p{M}\u200D][\p{M}\u{1F3FB}-\u{1F3FF}]*(?:\u200D[^\p{M}\u200D][\p{M}\u{1F3FB}-\u{1F3FF}]*)*|[\p{M}\u200D]+/gu;
+
+/**
+ * Normalizes text for similarity scoring: lowercases, applies NFKD compatibility
+ * decomposition (full-width forms and ligatures become plain letters), and optionally
+ * expands German umlauts, folds diacritics and strips punctuation.
+ * "Müller" becomes "mueller", "José" becomes "jose" and "Ｏ’Brien" becomes "obrien".
+ *
+ * @param str - Text to normalize
+ * @param options - Steps to apply (default: all)
+ * @returns Normalized text with whitespace collapsed
+ */
+export function normalizeUnicode(str: string, options: UnicodeNormalizationOptions = {}): string {
+	const { expandUmlauts = true, foldDiacritics = true, stripPunctuation = true } = options;
+
+	let result = (str || '').normalize('NFC').toLowerCase();
+	if (expandUmlauts) {
+		result = result.replace(/[äöüß]/g, (letter) => UMLAUT_EXPANSIONS[letter]);
+	}
+
+	result = result.normalize('NFKD');
+	result = foldDiacritics
+		? result.replace(/\p{M}+/gu, '').replace(/[æœøłđðþıß]/g, (letter) => FOLDED_LETTERS[letter])
+		: result.normalize('NFC');
+
+	if (stripPunctuation) {
+		result = result.replace(/[\p{Pd}\p{Pc}/]+/gu, ' ').replace(/\p{P}+/gu, '');
+	}
+
+	return result.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Splits a string into user-perceived characters (grapheme clusters), so an emoji,
+ * a flag or a letter with a combining accent counts as one character.
+ *
+ * @param str - String to split
+ * @returns Array of grapheme clusters
+ */
+export function graphemes(str: string): string[] {
+	return (str || '').match(GRAPHEME_PATTERN) ?? [];
+}
+
+/**
+ * Returns the grapheme clusters of a string for index-based algorithms. Strings in
+ * which every code unit is its own cluster are returned as-is, which keeps the
+ * common case free of allocations.
+ */
+function toGraphemes(str: string): ArrayLike<string> {
+	return /[\p{M}\u200D]|[\u{10000}-\u{10FFFF}]/u.test(str) ? graphemes(str) : str;
+}
+
 // ============================================================================
 // FUZZY STRING MATCHING ALGORITHMS
 // ============================================================================
@@ -39,12 +124,16 @@ export function levenshteinDistance(str1: string, str2: string): number {
 	// Early exit for identical strings
 	if (s1 === s2) return 0;
 
+	// Iterate grapheme clusters so surrogate pairs and combining marks count once
+	const c1 = toGraphemes(s1);
+	const c2 = toGraphemes(s2);
+
 	// Early exit for empty strings
-	if (s1.length === 0) return s2.length;
-	if (s2.length === 0) return s1.length;
+	if (c1.length === 0) return c2.length;
+	if (c2.length === 0) return c1.length;
 
-	// Ensure s1 is the shorter string for space optimization
-	const [shorter, longer] = s1.length <= s2.length ? [s1, s2] : [s2, s1];
+	// Ensure c1 is the shorter string for space optimization
+	const [shorter, longer] = c1.length <= c2.length ? [c1, c2] : [c2, c1];
 
 	// Use a single row instead of full matrix (space optimization)
 	let previousRow: number[] = Array.from({ length: shorter.length + 1 }, (_, i) => i);
@@ -83,11 +172,78 @@ export function levenshteinSimilarity(str1: string, str2: string): number {
 	if (!str1 || !str2) return 0.0;
 
 	const distance = levenshteinDistance(str1, str2);
-	const maxLength = Math.max(str1.length, str2.length);
+	const maxLength = Math.max(toGraphemes(str1).length, toGraphemes(str2).length);
 
 	return maxLength === 0 ? 1.0 : 1.0 - distance / maxLength;
 }
 
+/**
+ * Calculates the Damerau-Levenshtein distance (optimal string alignment variant) between two strings.
+ * Like Levenshtein, but swapping two adjacent characters counts as a single edit,
+ * so "Jhon" vs "John" has a distance of 1 instead of 2.
+ *
+ * @param str1 - First string to compare
+ * @param str2 - Second string to compare
+ * @returns The edit distance between the two strings
+ */
+export function damerauLevenshteinDistance(str1: string, str2: string): number {
+	// Normalize strings for comparison
+	const s1 = str1.toLowerCase().trim();
+	const s2 = str2.toLowerCase().trim();
+
+	// Early exit for identical or empty strings
+	if (s1 === s2) return 0;
+	const c1 = toGraphemes(s1);
+	const c2 = toGraphemes(s2);
+	if (c1.length === 0) return c2.length;
+	if (c2.length === 0) return c1.length;
+
+	// Keep the last two rows, transpositions look two rows back
+	let twoRowsBack: number[] = new Array(c2.length + 1).fill(0);
+	let previousRow: number[] = Array.from({ length: c2.length + 1 }, (_, j) => j);
+	let currentRow: number[] = new Array(c2.length + 1);
+
+	for (let i = 1; i <= c1.length; i++) {
+		currentRow[0] = i;
+
+		for (let j = 1; j <= c2.length; j++) {
+			const cost = c1[i - 1] === c2[j - 1] ? 0 : 1;
+
+			currentRow[j] = Math.min(
+				currentRow[j - 1] + 1,      // Insertion
+				previousRow[j] + 1,          // Deletion
+				previousRow[j - 1] + cost    // Substitution
+			);
+
+			if (i > 1 && j > 1 && c1[i - 1] === c2[j - 2] && c1[i - 2] === c2[j - 1]) {
+				currentRow[j] = Math.min(currentRow[j], twoRowsBack[j - 2] + 1); // Transposition
+			}
+		}
+
+		// Rotate rows
+		[twoRowsBack, previousRow, currentRow] = [previousRow, currentRow, twoRowsBack];
+	}
+
+	return previousRow[c2.length];
+}
+
+/**
+ * Calculates a normalized similarity score between two strings using Damerau-Levenshtein distance.
+ *
+ * @param str1 - First string to compare
+ * @param str2 - Second string to compare
+ * @returns Similarity score between 0.0 and 1.0
+ */
+export function damerauLevenshteinSimilarity(str1: string, str2: string): number {
+	if (!str1 && !str2) return 1.0;
+	if (!str1 || !str2) return 0.0;
+
+	const distance = damerauLevenshteinDistance(str1, str2);
+	const maxLength = Math.max(toGraphemes(str1.trim()).length, toGraphemes(str2.trim()).length);
+
+	return maxLength === 0 ? 1.0 : Math.max(0, 1.0 - distance / maxLength);
+}
+
 /**
  * Jaro similarity algorithm - measures the similarity between two strings.
  * Better suited for short strings like names than Levenshtein.
@@ -105,25 +261,29 @@ export function jaroSimilarity(str1: string, str2: string): number {
 	const s2 = str2.toLowerCase().trim();
 
 	if (s1 === s2) return 1.0;
-	if (s1.length === 0 || s2.length === 0) return 0.0;
+
+	// Iterate grapheme clusters so surrogate pairs and combining marks count once
+	const c1 = toGraphemes(s1);
+	const c2 = toGraphemes(s2);
+	if (c1.length === 0 || c2.length === 0) return 0.0;
 
 	// Calculate the match window
-	const matchWindow = Math.floor(Math.max(s1.length, s2.length) / 2) - 1;
+	const matchWindow = Math.floor(Math.max(c1.length, c2.length) / 2) - 1;
 	const matchWindowSize = Math.max(0, matchWindow);
 
-	const s1Matches = new Array(s1.length).fill(false);
-	const s2Matches = new Array(s2.length).fill(false);
+	const s1Matches = new Array(c1.length).fill(false);
+	const s2Matches = new Array(c2.length).fill(false);
 
 	let matches = 0;
 	let transpositions = 0;
 
 	// Find matching characters within the window
-	for (let i = 0; i < s1.length; i++) {
+	for (let i = 0; i < c1.length; i++) {
 		const start = Math.max(0, i - matchWindowSize);
-		const end = Math.min(i + matchWindowSize + 1, s2.length);
+		const end = Math.min(i + matchWindowSize + 1, c2.length);
 
 		for (let j = start; j < end; j++) {
-			if (s2Matches[j] || s1[i] !== s2[j]) continue;
+			if (s2Matches[j] || c1[i] !== c2[j]) continue;
 
 			s1Matches[i] = true;
 			s2Matches[j] = true;
@@ -136,17 +296,17 @@ export function jaroSimilarity(str1: string, str2: string): number {
 
 	// Count transpositions
 	let k = 0;
-	for (let i = 0; i < s1.length; i++) {
+	for (let i = 0; i < c1.length; i++) {
 		if (!s1Matches[i]) continue;
 
 		while (!s2Matches[k]) k++;
 
-		if (s1[i] !== s2[k]) transpositions++;
+		if (c1[i] !== c2[k]) transpositions++;
 		k++;
 	}
 
 	const jaro =
-		(matches / s1.length + matches / s2.length + (matches - transpositions / 2) / matches) / 3;
+		(matches / c1.length + matches / c2.length + (matches - transpositions / 2) / matches) / 3;
 
 	return jaro;
 }
@@ -169,8 +329,8 @@ export function jaroWinklerSimilarity(
 
 	if (jaroSim === 0) return 0.0;
 
-	const s1 = str1.toLowerCase().trim();
-	const s2 = str2.toLowerCase().trim();
+	const s1 = toGraphemes(str1.toLowerCase().trim());
+	const s2 = toGraphemes(str2.toLowerCase().trim());
 
 	// Calculate common prefix length (max 4 characters)
 	let prefixLength = 0;
@@ -208,443 +368,4213 @@ export function fuzzyMatch(str1: string, str2: string): number {
 	return levenshteinSimilarity(str1, str2);
 }
 
-// ============================================================================
-// CASE CONVERSION UTILITIES
-// ============================================================================
+/**
+ * Splits a string into lowercase word tokens (letters and digits only).
+ */
+function tokenize(str: string): string[] {
+	return (str || '')
+		.toLowerCase()
+		.split(/[^\p{L}\p{M}\p{N}]+/u)
+		.filter((token) => token.length > 0);
+}
 
 /**
- * Converts a string to Title Case with smart handling of common patterns.
- * Handles mixed case input like "jOhN dOE" -> "John Doe"
+ * Token set similarity - compares the shared words of two strings against each
+ * string's remaining words, so word order and repeated or extra words matter less.
+ * "John Smith" vs "Smith, John" scores 1.0.
  *
- * @param str - The input string to convert
- * @returns Title-cased string
+ * @param str1 - First string to compare
+ * @param str2 - Second string to compare
+ * @returns Similarity score between 0.0 and 1.0
  */
-export function toTitleCase(str: string): string {
-	if (!str) return '';
-
-	// Common lowercase exceptions (articles, prepositions, conjunctions)
-	const exceptions = new Set([
-		'a', 'an', 'the', 'and', 'but', 'or', 'for', 'nor', 'so', 'yet',
-		'at', 'by', 'in', 'of', 'on', 'to', 'up', 'as', 'is', 'it'
-	]);
-
-	// Common uppercase exceptions (acronyms, etc.)
-	const uppercaseExceptions = new Set([
-		'usa', 'uk', 'uae', 'nyc', 'la', 'dc', 'ibm', 'nasa', 'fbi', 'cia',
-		'ceo', 'cfo', 'cto', 'coo', 'vp', 'svp', 'evp', 'md', 'phd', 'llc',
-		'inc', 'ltd', 'ii', 'iii', 'iv', 'vi', 'vii', 'viii', 'ix', 'xi'
-	]);
-
-	return str
-		.toLowerCase()
-		.split(/(\s+)/) // Split on whitespace but keep delimiters
-		.map((word, index, array) => {
-			// Skip whitespace
-			if (/^\s+$/.test(word)) return word;
+export function tokenSetSimilarity(str1: string, str2: string): number {
+	const tokens1 = new Set(tokenize(str1));
+	const tokens2 = new Set(tokenize(str2));
 
-			const lowerWord = word.toLowerCase();
+	if (tokens1.size === 0 && tokens2.size === 0) return 1.0;
+	if (tokens1.size === 0 || tokens2.size === 0) return 0.0;
 
-			// Check for uppercase exceptions
-			if (uppercaseExceptions.has(lowerWord)) {
-				return word.toUpperCase();
-			}
+	const intersection = [...tokens1].filter((token) => tokens2.has(token)).sort();
+	const rest1 = [...tokens1].filter((token) => !tokens2.has(token)).sort();
+	const rest2 = [...tokens2].filter((token) => !tokens1.has(token)).sort();
 
-			// Apply lowercase exceptions (but not for first/last word)
-			const isFirstOrLast = index === 0 || index === array.length - 1;
-			if (!isFirstOrLast && exceptions.has(lowerWord)) {
-				return lowerWord;
-			}
+	const shared = intersection.join(' ');
+	const combined1 = [shared, rest1.join(' ')].filter((part) => part).join(' ');
+	const combined2 = [shared, rest2.join(' ')].filter((part) => part).join(' ');
 
-			// Standard title case: capitalize first letter
-			return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
-		})
-		.join('');
+	return Math.max(
+		shared ? levenshteinSimilarity(shared, combined1) : 0,
+		shared ? levenshteinSimilarity(shared, combined2) : 0,
+		levenshteinSimilarity(combined1, combined2),
+	);
 }
 
 /**
- * Converts a string to snake_case.
- * Handles camelCase, PascalCase, spaces, hyphens, and mixed input.
+ * Token sort similarity - sorts the words of both strings alphabetically before
+ * comparing them, so word order is ignored but extra words still count.
+ * "Smith, John" vs "John Smith" scores 1.0.
  *
- * @param str - The input string to convert
- * @returns snake_case string
+ * @param str1 - First string to compare
+ * @param str2 - Second string to compare
+ * @returns Similarity score between 0.0 and 1.0
  */
-export function toSnakeCase(str: string): string {
-	if (!str) return '';
+export function tokenSortSimilarity(str1: string, str2: string): number {
+	const sorted1 = tokenize(str1).sort().join(' ');
+	const sorted2 = tokenize(str2).sort().join(' ');
 
-	return str
-		// Insert underscore before uppercase letters (for camelCase/PascalCase)
-		.replace(/([a-z])([A-Z])/g, '$1_$2')
-		// Insert underscore before sequences of uppercase followed by lowercase
-		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
-		// Replace spaces, hyphens, dots with underscores
-		.replace(/[\s\-.]+/g, '_')
-		// Remove non-alphanumeric characters except underscores
-		.replace(/[^a-zA-Z0-9_]/g, '')
-		// Convert to lowercase
-		.toLowerCase()
-		// Remove leading/trailing underscores
-		.replace(/^_+|_+$/g, '')
-		// Collapse multiple underscores
-		.replace(/_+/g, '_');
+	return levenshteinSimilarity(sorted1, sorted2);
 }
 
 /**
- * Converts a string to camelCase.
- * Handles snake_case, PascalCase, spaces, hyphens, and mixed input.
+ * Counts the n-grams of a string. Words are n-grams of consecutive words,
+ * characters are n-grams of the grapheme clusters of the lowercased string with
+ * whitespace collapsed.
+ * Strings shorter than the n-gram size form a single n-gram.
+ */
+function countNgrams(str: string, unit: 'word' | 'char', size: number): Map<string, number> {
+	const parts = unit === 'word'
+		? tokenize(str)
+		: graphemes((str || '').toLowerCase().trim().replace(/\s+/g, ' '));
+	const counts = new Map<string, number>();
+	const gramSize = Math.max(1, size);
+	const separator = unit === 'word' ? ' ' : '';
+
+	if (parts.length > 0 && parts.length < gramSize) {
+		counts.set(parts.join(separator), 1);
+		return counts;
+	}
+	for (let i = 0; i <= parts.length - gramSize; i++) {
+		const gram = parts.slice(i, i + gramSize).join(separator);
+		counts.set(gram, (counts.get(gram) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/**
+ * Jaccard similarity - the number of shared n-grams divided by the number of
+ * distinct n-grams in either string.
  *
- * @param str - The input string to convert
- * @returns camelCase string
+ * @param str1 - First string to compare
+ * @param str2 - Second string to compare
+ * @param unit - Build n-grams from words or characters (default: word)
+ * @param size - Number of words or characters per n-gram (default: 1)
+ * @returns Similarity score between 0.0 and 1.0
  */
-export function toCamelCase(str: string): string {
-	if (!str) return '';
+export function jaccardSimilarity(
+	str1: string,
+	str2: string,
+	unit: 'word' | 'char' = 'word',
+	size: number = 1,
+): number {
+	const grams1 = countNgrams(str1, unit, size);
+	const grams2 = countNgrams(str2, unit, size);
 
-	return str
-		// Replace special characters with spaces for word boundary detection
-		.replace(/[_\-.\s]+/g, ' ')
-		// Trim and lowercase
-		.trim()
-		.toLowerCase()
-		// Split into words and process
-		.split(' ')
-		.filter((word) => word.length > 0)
-		.map((word, index) => {
-			if (index === 0) {
-				// First word stays lowercase
-				return word;
-			}
-			// Capitalize first letter of subsequent words
-			return word.charAt(0).toUpperCase() + word.slice(1);
-		})
-		.join('');
+	if (grams1.size === 0 && grams2.size === 0) return 1.0;
+	if (grams1.size === 0 || grams2.size === 0) return 0.0;
+
+	let shared = 0;
+	for (const gram of grams1.keys()) {
+		if (grams2.has(gram)) shared++;
+	}
+
+	return shared / (grams1.size + grams2.size - shared);
 }
 
 /**
- * Converts a string to PascalCase (UpperCamelCase).
+ * Cosine similarity of the character n-gram frequency vectors of two strings.
+ * Tolerant of typos and word order; trigrams work well for names and addresses.
  *
- * @param str - The input string to convert
- * @returns PascalCase string
+ * @param str1 - First string to compare
+ * @param str2 - Second string to compare
+ * @param size - Characters per n-gram (default: 3)
+ * @returns Similarity score between 0.0 and 1.0
  */
-export function toPascalCase(str: string): string {
-	const camel = toCamelCase(str);
-	if (!camel) return '';
-	return camel.charAt(0).toUpperCase() + camel.slice(1);
+export function cosineSimilarity(str1: string, str2: string, size: number = 3): number {
+	const grams1 = countNgrams(str1, 'char', size);
+	const grams2 = countNgrams(str2, 'char', size);
+
+	if (grams1.size === 0 && grams2.size === 0) return 1.0;
+	if (grams1.size === 0 || grams2.size === 0) return 0.0;
+
+	let dotProduct = 0;
+	let norm1 = 0;
+	let norm2 = 0;
+	for (const [gram, count] of grams1) {
+		dotProduct += count * (grams2.get(gram) ?? 0);
+		norm1 += count * count;
+	}
+	for (const count of grams2.values()) {
+		norm2 += count * count;
+	}
+
+	return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
 }
 
 // ============================================================================
-// PHONE NUMBER UTILITIES
+// PHONETIC ALGORITHMS
 // ============================================================================
 
 /**
- * Cleans and formats a phone number to E.164 format.
- * Uses regex-only approach without external libraries.
- *
- * E.164 format: +[country code][number] (max 15 digits total)
- * Example: +15550001111
- *
- * @param phone - The input phone number string
- * @param defaultCountryCode - Default country code if none detected (default: "1" for US)
- * @returns Formatted E.164 phone number or original if invalid
+ * American Soundex letter-to-digit mapping. Vowels and H/W/Y map to '0' and are
+ * dropped from the final code (H and W additionally do not separate duplicates).
  */
-export function cleanPhoneNumber(
-	phone: string,
-	defaultCountryCode: string = '1'
-): string {
-	if (!phone || typeof phone !== 'string') {
-		return phone || '';
-	}
+const SOUNDEX_CODES: Record<string, string> = {
+	a: '0', e: '0', i: '0', o: '0', u: '0', y: '0', h: '0', w: '0',
+	b: '1', f: '1', p: '1', v: '1',
+	c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+	d: '3', t: '3',
+	l: '4',
+	m: '5', n: '5',
+	r: '6',
+};
 
-	// Remove all non-numeric characters except leading +
-	const hasPlus = phone.trim().startsWith('+');
-	const digitsOnly = phone.replace(/\D/g, '');
+/**
+ * Uppercase Latin letters of a string for the phonetic encoders. Diacritics are folded
+ * first ("José" -> "JOSE", "Müller" -> "MULLER"); everything else is dropped.
+ */
+function phoneticLetters(str: string): string {
+	return normalizeUnicode(str || '', { expandUmlauts: false }).toUpperCase().replace(/[^A-Z]/g, '');
+}
 
-	if (digitsOnly.length === 0) {
-		return phone; // Return original if no digits found
-	}
+/**
+ * Generates the American Soundex code for a string (e.g. "Robert" -> "R163").
+ * Non-letter characters are ignored. Returns an empty string if no letters are present.
+ *
+ * @param str - The string to encode
+ * @returns Four-character Soundex code
+ */
+export function soundex(str: string): string {
+	const letters = phoneticLetters(str).toLowerCase();
+	if (!letters) return '';
 
-	// Validate: E.164 allows max 15 digits
-	if (digitsOnly.length > 15) {
-		return phone; // Return original if too long
-	}
+	let code = letters[0].toUpperCase();
+	let previous = SOUNDEX_CODES[letters[0]];
 
-	// Check if number already has a country code
-	if (hasPlus) {
-		// Already has + prefix, trust the country code
-		return `+${digitsOnly}`;
-	}
+	for (let i = 1; i < letters.length && code.length < 4; i++) {
+		const char = letters[i];
+		const digit = SOUNDEX_CODES[char];
 
-	// Common patterns for detecting country codes
-	// US/Canada: 10 digits without country code, 11 with leading 1
-	if (digitsOnly.length === 11 && digitsOnly.startsWith('1')) {
-		// Likely US/Canada with country code
-		return `+${digitsOnly}`;
-	}
+		// H and W are transparent: letters on either side with the same code collapse
+		if (char === 'h' || char === 'w') continue;
 
-	if (digitsOnly.length === 10) {
-		// Assume US/Canada format, add default country code
-		return `+${defaultCountryCode}${digitsOnly}`;
+		if (digit !== '0' && digit !== previous) {
+			code += digit;
+		}
+		previous = digit;
 	}
 
-	// UK: 10-11 digits, often starts with 0 (national) or 44 (international)
-	if (digitsOnly.length === 11 && digitsOnly.startsWith('0')) {
-		// UK national format, convert to international
-		return `+44${digitsOnly.slice(1)}`;
-	}
+	return code.padEnd(4, '0');
+}
 
-	if (digitsOnly.length === 12 && digitsOnly.startsWith('44')) {
-		// UK international without +
-		return `+${digitsOnly}`;
-	}
+/**
+ * Supported phonetic encoding algorithms.
+ */
+export type PhoneticAlgorithm = 'soundex' | 'refinedSoundex' | 'metaphone' | 'doubleMetaphone' | 'nysiis';
+
+/**
+ * Refined Soundex letter-to-digit mapping (A-Z), as used by Apache Commons Codec.
+ */
+const REFINED_SOUNDEX_CODES = '01360240043788015936020505';
 
-	// For other formats, add default country code if number seems local
-	if (digitsOnly.length >= 7 && digitsOnly.length <= 10) {
-		return `+${defaultCountryCode}${digitsOnly}`;
+/**
+ * Generates the Refined Soundex code for a string (e.g. "Testing" -> "T6036084").
+ * Unlike Soundex, the code is not truncated and vowel groups are kept as '0'.
+ *
+ * @param str - The string to encode
+ * @returns Refined Soundex code
+ */
+export function refinedSoundex(str: string): string {
+	const letters = phoneticLetters(str);
+	if (!letters) return '';
+
+	let code = letters[0];
+	let last = '';
+
+	for (const char of letters) {
+		const digit = REFINED_SOUNDEX_CODES[char.charCodeAt(0) - 65];
+		if (digit === last) continue;
+		code += digit;
+		last = digit;
 	}
 
-	// If we can't determine the format, prepend + to existing digits
-	return `+${digitsOnly}`;
+	return code;
 }
 
 /**
- * Validates if a phone number appears to be in valid E.164 format.
+ * Generates the NYSIIS (New York State Identification and Intelligence System)
+ * phonetic code for a string, truncated to 6 characters (e.g. "Schmidt" -> "SNAD").
  *
- * @param phone - The phone number to validate
- * @returns True if the phone number is valid E.164 format
+ * @param str - The string to encode
+ * @returns NYSIIS code
  */
-export function isValidE164(phone: string): boolean {
-	// E.164 regex: + followed by 1-15 digits
-	const e164Regex = /^\+[1-9]\d{1,14}$/;
-	return e164Regex.test(phone);
+export function nysiis(str: string): string {
+	let name = phoneticLetters(str);
+	if (!name) return '';
+
+	const isVowel = (char: string) => 'AEIOU'.includes(char);
+
+	// Translate first and last characters
+	name = name
+		.replace(/^MAC/, 'MCC')
+		.replace(/^KN/, 'NN')
+		.replace(/^K/, 'C')
+		.replace(/^(PH|PF)/, 'FF')
+		.replace(/^SCH/, 'SSS')
+		.replace(/(EE|IE)$/, 'Y')
+		.replace(/(DT|RT|RD|NT|ND)$/, 'D');
+
+	const chars = name.split('');
+	let key = chars[0];
+
+	for (let i = 1; i < chars.length; i++) {
+		const prev = chars[i - 1];
+		const curr = chars[i];
+		const next = chars[i + 1] ?? ' ';
+		const afterNext = chars[i + 2] ?? ' ';
+		let transcoded: string;
+
+		if (curr === 'E' && next === 'V') transcoded = 'AF';
+		else if (isVowel(curr)) transcoded = 'A';
+		else if (curr === 'Q') transcoded = 'G';
+		else if (curr === 'Z') transcoded = 'S';
+		else if (curr === 'M') transcoded = 'N';
+		else if (curr === 'K') transcoded = next === 'N' ? 'NN' : 'C';
+		else if (curr === 'S' && next === 'C' && afterNext === 'H') transcoded = 'SSS';
+		else if (curr === 'P' && next === 'H') transcoded = 'FF';
+		else if (curr === 'H' && (!isVowel(prev) || !isVowel(next))) transcoded = prev;
+		else if (curr === 'W' && isVowel(prev)) transcoded = prev;
+		else transcoded = curr;
+
+		// Transcoded characters overwrite the upcoming characters in place
+		for (let k = 0; k < transcoded.length && i + k < chars.length; k++) {
+			chars[i + k] = transcoded[k];
+		}
+
+		if (chars[i] !== chars[i - 1]) {
+			key += chars[i];
+		}
+	}
+
+	// Clean up the end of the key
+	if (key.length > 1 && key.endsWith('S')) key = key.slice(0, -1);
+	if (key.length > 2 && key.endsWith('AY')) key = key.slice(0, -2) + 'Y';
+	if (key.length > 1 && key.endsWith('A')) key = key.slice(0, -1);
+
+	return key.slice(0, 6);
 }
 
-// ============================================================================
-// EMAIL UTILITIES
-// ============================================================================
+/**
+ * Generates the original Metaphone code for a string (e.g. "Knight" -> "NT").
+ *
+ * @param str - The string to encode
+ * @returns Metaphone code
+ */
+export function metaphone(str: string): string {
+	let word = phoneticLetters(str);
+	if (!word) return '';
+
+	const isVowel = (char: string | undefined) => !!char && 'AEIOU'.includes(char);
+	const isFrontVowel = (char: string | undefined) => !!char && 'EIY'.includes(char);
+
+	// Initial letter exceptions
+	if (/^(AE|GN|KN|PN|WR)/.test(word)) word = word.slice(1);
+	if (word[0] === 'X') word = 'S' + word.slice(1);
+	if (word.startsWith('WH')) word = 'W' + word.slice(2);
+
+	let code = '';
+
+	for (let i = 0; i < word.length; i++) {
+		const char = word[i];
+		const prev = word[i - 1];
+		const next = word[i + 1];
+		const afterNext = word[i + 2];
+
+		// Drop duplicate adjacent letters, except C
+		if (char === prev && char !== 'C') continue;
+
+		switch (char) {
+			case 'A':
+			case 'E':
+			case 'I':
+			case 'O':
+			case 'U':
+				if (i === 0) code += char;
+				break;
+			case 'B':
+				// Silent in a trailing "MB"
+				if (!(prev === 'M' && i === word.length - 1)) code += 'B';
+				break;
+			case 'C':
+				if (isFrontVowel(next) && prev === 'S') break;
+				if (next === 'I' && afterNext === 'A') code += 'X';
+				else if (next === 'H') code += prev === 'S' ? 'K' : 'X';
+				else if (isFrontVowel(next)) code += 'S';
+				else code += 'K';
+				break;
+			case 'D':
+				code += next === 'G' && isFrontVowel(afterNext) ? 'J' : 'T';
+				break;
+			case 'G':
+				// Silent in "GH" not at the end or before a vowel, and in trailing "GN"/"GNED"
+				if (next === 'H' && !(i + 2 >= word.length || isVowel(afterNext))) break;
+				if (next === 'N' && (i + 2 === word.length || word.slice(i + 1) === 'NED')) break;
+				if (prev === 'D' && isFrontVowel(next)) break;
+				code += isFrontVowel(next) && prev !== 'G' ? 'J' : 'K';
+				break;
+			case 'H':
+				if (isVowel(next) && (prev === undefined || !'CSPTG'.includes(prev))) code += 'H';
+				break;
+			case 'K':
+				if (prev !== 'C') code += 'K';
+				break;
+			case 'P':
+				code += next === 'H' ? 'F' : 'P';
+				break;
+			case 'Q':
+				code += 'K';
+				break;
+			case 'S':
+				if (next === 'H' || (next === 'I' && (afterNext === 'O' || afterNext === 'A'))) code += 'X';
+				else code += 'S';
+				break;
+			case 'T':
+				if (next === 'I' && (afterNext === 'O' || afterNext === 'A')) code += 'X';
+				else if (next === 'H') code += '0';
+				else if (!(next === 'C' && afterNext === 'H')) code += 'T';
+				break;
+			case 'V':
+				code += 'F';
+				break;
+			case 'W':
+			case 'Y':
+				if (isVowel(next)) code += char;
+				break;
+			case 'X':
+				code += 'KS';
+				break;
+			case 'Z':
+				code += 'S';
+				break;
+			default:
+				// F, J, L, M, N, R
+				code += char;
+		}
+	}
+
+	// Adjacent letters that encode alike ("DT" in "Schmidt") give one code
+	return code.replace(/(.)\1+/g, '$1');
+}
 
 /**
- * Normalizes an email address:
- * - Trims whitespace
- * - Converts to lowercase
- * - Removes common typos in domain extensions
+ * Generates the Double Metaphone primary and alternate codes for a string
+ * (Lawrence Philips' algorithm), each at most 4 characters long.
+ * The alternate code captures a second plausible pronunciation, e.g. "Schmidt" -> XMT / SMT.
  *
- * @param email - The email address to normalize
- * @returns Normalized email address
+ * @param str - The string to encode
+ * @returns Primary and alternate codes
  */
-export function normalizeEmail(email: string): string {
-	if (!email || typeof email !== 'string') {
-		return email || '';
+export function doubleMetaphone(str: string): { primary: string; alternate: string } {
+	// Fold diacritics except Ç and Ñ, which the algorithm encodes itself
+	const value = (str || '')
+		.toUpperCase()
+		.normalize('NFD')
+		.replace(/C\u0327/g, 'Ç')
+		.replace(/N\u0303/g, 'Ñ')
+		.replace(/\p{M}+/gu, '')
+		.replace(/[ÆŒØŁĐÐÞ]/g, (letter) => FOLDED_LETTERS[letter.toLowerCase()].toUpperCase())
+		.replace(/[^A-ZÇÑ ]/g, '')
+		.trim();
+	if (!value) return { primary: '', alternate: '' };
+
+	const length = value.length;
+	const last = length - 1;
+	// Pad so look-ahead beyond the end sees spaces, as in the reference implementation
+	const word = value + '     ';
+	let primary = '';
+	let alternate = '';
+	let current = 0;
+
+	const charAt = (index: number) => (index < 0 ? '' : word[index] ?? '');
+	const stringAt = (start: number, size: number, ...options: string[]) =>
+		start >= 0 && options.includes(word.substr(start, size));
+	const isVowel = (index: number) => index >= 0 && index < length && 'AEIOUY'.includes(word[index]);
+	const slavoGermanic = /W|K|CZ|WITZ/.test(value);
+	const add = (main: string, alt?: string) => {
+		primary += main;
+		if (alt === undefined) {
+			alternate += main;
+		} else if (alt !== ' ') {
+			alternate += alt;
+		}
+	};
+
+	// Skip silent first letters
+	if (stringAt(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) current++;
+
+	// Initial 'X' is pronounced 'Z' (e.g. 'Xavier')
+	if (charAt(0) === 'X') {
+		add('S');
+		current++;
 	}
 
-	// Trim whitespace and convert to lowercase
-	const normalized = email.trim().toLowerCase();
+	while ((primary.length < 4 || alternate.length < 4) && current < length) {
+		switch (charAt(current)) {
+			case 'A':
+			case 'E':
+			case 'I':
+			case 'O':
+			case 'U':
+			case 'Y':
+				// All initial vowels map to 'A'
+				if (current === 0) add('A');
+				current++;
+				break;
 
-	// Basic validation: must contain @ and at least one character on each side
-	const atIndex = normalized.indexOf('@');
-	if (atIndex < 1 || atIndex === normalized.length - 1) {
-		return normalized; // Return as-is if invalid structure
+			case 'B':
+				add('P');
+				current += charAt(current + 1) === 'B' ? 2 : 1;
+				break;
+
+			case 'Ç':
+				add('S');
+				current++;
+				break;
+
+			case 'C':
+				// Various Germanic
+				if (
+					current > 1 &&
+					!isVowel(current - 2) &&
+					stringAt(current - 1, 3, 'ACH') &&
+					charAt(current + 2) !== 'I' &&
+					(charAt(current + 2) !== 'E' || stringAt(current - 2, 6, 'BACHER', 'MACHER'))
+				) {
+					add('K');
+					current += 2;
+					break;
+				}
+				// Special case 'Caesar'
+				if (current === 0 && stringAt(current, 6, 'CAESAR')) {
+					add('S');
+					current += 2;
+					break;
+				}
+				// Italian 'Chianti'
+				if (stringAt(current, 4, 'CHIA')) {
+					add('K');
+					current += 2;
+					break;
+				}
+				if (stringAt(current, 2, 'CH')) {
+					// 'Michael'
+					if (current > 0 && stringAt(current, 4, 'CHAE')) {
+						add('K', 'X');
+						current += 2;
+						break;
+					}
+					// Greek roots, e.g. 'chemistry', 'chorus'
+					if (
+						current === 0 &&
+						(stringAt(current + 1, 5, 'HARAC', 'HARIS') ||
+							stringAt(current + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+						!stringAt(0, 5, 'CHORE')
+					) {
+						add('K');
+						current += 2;
+						break;
+					}
+					// Germanic, Greek, or otherwise 'ch' for 'kh' sound
+					if (
+						stringAt(0, 4, 'VAN ', 'VON ') ||
+						stringAt(0, 3, 'SCH') ||
+						stringAt(current - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+						stringAt(current + 2, 1, 'T', 'S') ||
+						((stringAt(current - 1, 1, 'A', 'O', 'U', 'E') || current === 0) &&
+							stringAt(current + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' '))
+					) {
+						add('K');
+					} else if (current > 0) {
+						if (stringAt(0, 2, 'MC')) add('K');
+						else add('X', 'K');
+					} else {
+						add('X');
+					}
+					current += 2;
+					break;
+				}
+				// 'Czerny'
+				if (stringAt(current, 2, 'CZ') && !stringAt(current - 2, 4, 'WICZ')) {
+					add('S', 'X');
+					current += 2;
+					break;
+				}
+				// 'Focaccia'
+				if (stringAt(current + 1, 3, 'CIA')) {
+					add('X');
+					current += 3;
+					break;
+				}
+				// Double 'C', but not in e.g. 'McClellan'
+				if (stringAt(current, 2, 'CC') && !(current === 1 && charAt(0) === 'M')) {
+					// 'Bellocchio', but not 'Bacchus'
+					if (stringAt(current + 2, 1, 'I', 'E', 'H') && !stringAt(current + 2, 2, 'HU')) {
+						// 'Accident', 'accede', 'succeed'
+						if ((current === 1 && charAt(current - 1) === 'A') || stringAt(current - 1, 5, 'UCCEE', 'UCCES')) {
+							add('KS');
+						} else {
+							add('X');
+						}
+						current += 3;
+						break;
+					}
+					// Pierce's rule
+					add('K');
+					current += 2;
+					break;
+				}
+				if (stringAt(current, 2, 'CK', 'CG', 'CQ')) {
+					add('K');
+					current += 2;
+					break;
+				}
+				if (stringAt(current, 2, 'CI', 'CE', 'CY')) {
+					// Italian vs. English
+					if (stringAt(current, 3, 'CIO', 'CIE', 'CIA')) add('S', 'X');
+					else add('S');
+					current += 2;
+					break;
+				}
+				add('K');
+				// 'Mac Caffrey', 'Mac Gregor'
+				if (stringAt(current + 1, 2, ' C', ' Q', ' G')) current += 3;
+				else if (stringAt(current + 1, 1, 'C', 'K', 'Q') && !stringAt(current + 1, 2, 'CE', 'CI')) current += 2;
+				else current++;
+				break;
+
+			case 'D':
+				if (stringAt(current, 2, 'DG')) {
+					if (stringAt(current + 2, 1, 'I', 'E', 'Y')) {
+						// 'Edge'
+						add('J');
+						current += 3;
+					} else {
+						// 'Edgar'
+						add('TK');
+						current += 2;
+					}
+					break;
+				}
+				add('T');
+				current += stringAt(current, 2, 'DT', 'DD') ? 2 : 1;
+				break;
+
+			case 'F':
+				add('F');
+				current += charAt(current + 1) === 'F' ? 2 : 1;
+				break;
+
+			case 'G':
+				if (charAt(current + 1) === 'H') {
+					if (current > 0 && !isVowel(current - 1)) {
+						add('K');
+						current += 2;
+						break;
+					}
+					// 'Ghislane', 'Ghiradelli'
+					if (current === 0) {
+						add(charAt(current + 2) === 'I' ? 'J' : 'K');
+						current += 2;
+						break;
+					}
+					// Parker's rule, e.g. 'Hugh'
+					if (
+						(current > 1 && stringAt(current - 2, 1, 'B', 'H', 'D')) ||
+						(current > 2 && stringAt(current - 3, 1, 'B', 'H', 'D')) ||
+						(current > 3 && stringAt(current - 4, 1, 'B', 'H'))
+					) {
+						current += 2;
+						break;
+					}
+					// 'Laugh', 'McLaughlin', 'cough', 'rough', 'tough'
+					if (current > 2 && charAt(current - 1) === 'U' && stringAt(current - 3, 1, 'C', 'G', 'L', 'R', 'T')) {
+						add('F');
+					} else if (current > 0 && charAt(current - 1) !== 'I') {
+						add('K');
+					}
+					current += 2;
+					break;
+				}
+				if (charAt(current + 1) === 'N') {
+					if (current === 1 && isVowel(0) && !slavoGermanic) {
+						add('KN', 'N');
+					} else if (!stringAt(current + 2, 2, 'EY') && charAt(current + 1) !== 'Y' && !slavoGermanic) {
+						// Not e.g. 'Cagney'
+						add('N', 'KN');
+					} else {
+						add('KN');
+					}
+					current += 2;
+					break;
+				}
+				// 'Tagliaro'
+				if (stringAt(current + 1, 2, 'LI') && !slavoGermanic) {
+					add('KL', 'L');
+					current += 2;
+					break;
+				}
+				// -ges-, -gep-, -gel-, -gie- at beginning
+				if (
+					current === 0 &&
+					(charAt(current + 1) === 'Y' ||
+						stringAt(current + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))
+				) {
+					add('K', 'J');
+					current += 2;
+					break;
+				}
+				// -ger-, -gy-
+				if (
+					(stringAt(current + 1, 2, 'ER') || charAt(current + 1) === 'Y') &&
+					!stringAt(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+					!stringAt(current - 1, 1, 'E', 'I') &&
+					!stringAt(current - 1, 3, 'RGY', 'OGY')
+				) {
+					add('K', 'J');
+					current += 2;
+					break;
+				}
+				// Italian, e.g. 'Biaggi'
+				if (stringAt(current + 1, 1, 'E', 'I', 'Y') || stringAt(current - 1, 4, 'AGGI', 'OGGI')) {
+					if (stringAt(0, 4, 'VAN ', 'VON ') || stringAt(0, 3, 'SCH') || stringAt(current + 1, 2, 'ET')) {
+						// Obvious Germanic
+						add('K');
+					} else if (stringAt(current + 1, 4, 'IER ')) {
+						// Always soft if French ending
+						add('J');
+					} else {
+						add('J', 'K');
+					}
+					current += 2;
+					break;
+				}
+				add('K');
+				current += charAt(current + 1) === 'G' ? 2 : 1;
+				break;
+
+			case 'H':
+				// Only keep if first & before vowel or between 2 vowels
+				if ((current === 0 || isVowel(current - 1)) && isVowel(current + 1)) {
+					add('H');
+					current += 2;
+				} else {
+					current++;
+				}
+				break;
+
+			case 'J':
+				// Obvious Spanish, 'Jose', 'San Jacinto'
+				if (stringAt(current, 4, 'JOSE') || stringAt(0, 4, 'SAN ')) {
+					if ((current === 0 && charAt(current + 4) === ' ') || stringAt(0, 4, 'SAN ')) add('H');
+					else add('J', 'H');
+					current++;
+					break;
+				}
+				if (current === 0 && !stringAt(current, 4, 'JOSE')) {
+					// 'Yankelovich' / 'Jankelowicz'
+					add('J', 'A');
+				} else if (isVowel(current - 1) && !slavoGermanic && (charAt(current + 1) === 'A' || charAt(current + 1) === 'O')) {
+					// Spanish pronunciation of e.g. 'bajador'
+					add('J', 'H');
+				} else if (current === last) {
+					add('J', ' ');
+				} else if (
+					!stringAt(current + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') &&
+					!stringAt(current - 1, 1, 'S', 'K', 'L')
+				) {
+					add('J');
+				}
+				current += charAt(current + 1) === 'J' ? 2 : 1;
+				break;
+
+			case 'K':
+				add('K');
+				current += charAt(current + 1) === 'K' ? 2 : 1;
+				break;
+
+			case 'L':
+				if (charAt(current + 1) === 'L') {
+					// Spanish, e.g. 'Cabrillo', 'Gallegos'
+					if (
+						(current === length - 3 && stringAt(current - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+						((stringAt(last - 1, 2, 'AS', 'OS') || stringAt(last, 1, 'A', 'O')) &&
+							stringAt(current - 1, 4, 'ALLE'))
+					) {
+						add('L', ' ');
+						current += 2;
+						break;
+					}
+					current += 2;
+				} else {
+					current++;
+				}
+				add('L');
+				break;
+
+			case 'M':
+				add('M');
+				current +=
+					(stringAt(current - 1, 3, 'UMB') && (current + 1 === last || stringAt(current + 2, 2, 'ER'))) ||
+					charAt(current + 1) === 'M'
+						? 2
+						: 1;
+				break;
+
+			case 'N':
+				add('N');
+				current += charAt(current + 1) === 'N' ? 2 : 1;
+				break;
+
+			case 'Ñ':
+				add('N');
+				current++;
+				break;
+
+			case 'P':
+				if (charAt(current + 1) === 'H') {
+					add('F');
+					current += 2;
+					break;
+				}
+				// Also account for 'Campbell', 'raspberry'
+				add('P');
+				current += stringAt(current + 1, 1, 'P', 'B') ? 2 : 1;
+				break;
+
+			case 'Q':
+				add('K');
+				current += charAt(current + 1) === 'Q' ? 2 : 1;
+				break;
+
+			case 'R':
+				// French, e.g. 'Rogier', but exclude 'Hochmeier'
+				if (
+					current === last &&
+					!slavoGermanic &&
+					stringAt(current - 2, 2, 'IE') &&
+					!stringAt(current - 4, 2, 'ME', 'MA')
+				) {
+					add('', 'R');
+				} else {
+					add('R');
+				}
+				current += charAt(current + 1) === 'R' ? 2 : 1;
+				break;
+
+			case 'S':
+				// 'Island', 'isle', 'Carlisle', 'Carlysle'
+				if (stringAt(current - 1, 3, 'ISL', 'YSL')) {
+					current++;
+					break;
+				}
+				// 'Sugar-'
+				if (current === 0 && stringAt(current, 5, 'SUGAR')) {
+					add('X', 'S');
+					current++;
+					break;
+				}
+				if (stringAt(current, 2, 'SH')) {
+					// Germanic
+					if (stringAt(current + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ')) add('S');
+					else add('X');
+					current += 2;
+					break;
+				}
+				// Italian & Armenian
+				if (stringAt(current, 3, 'SIO', 'SIA') || stringAt(current, 4, 'SIAN')) {
+					if (!slavoGermanic) add('S', 'X');
+					else add('S');
+					current += 3;
+					break;
+				}
+				// German & anglicisations, e.g. 'Smith' matches 'Schmidt', 'Snider' matches 'Schneider'
+				if ((current === 0 && stringAt(current + 1, 1, 'M', 'N', 'L', 'W')) || stringAt(current + 1, 1, 'Z')) {
+					add('S', 'X');
+					current += stringAt(current + 1, 1, 'Z') ? 2 : 1;
+					break;
+				}
+				if (stringAt(current, 2, 'SC')) {
+					// Schlesinger's rule
+					if (charAt(current + 2) === 'H') {
+						// Dutch origin, e.g. 'school', 'schooner'
+						if (stringAt(current + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+							// 'Schermerhorn', 'Schenker'
+							if (stringAt(current + 3, 2, 'ER', 'EN')) add('X', 'SK');
+							else add('SK');
+						} else if (current === 0 && !isVowel(3) && charAt(3) !== 'W') {
+							add('X', 'S');
+						} else {
+							add('X');
+						}
+						current += 3;
+						break;
+					}
+					if (stringAt(current + 2, 1, 'I', 'E', 'Y')) add('S');
+					else add('SK');
+					current += 3;
+					break;
+				}
+				// French, e.g. 'Resnais', 'Artois'
+				if (current === last && stringAt(current - 2, 2, 'AI', 'OI')) add('', 'S');
+				else add('S');
+				current += stringAt(current + 1, 1, 'S', 'Z') ? 2 : 1;
+				break;
+
+			case 'T':
+				if (stringAt(current, 4, 'TION') || stringAt(current, 3, 'TIA', 'TCH')) {
+					add('X');
+					current += 3;
+					break;
+				}
+				if (stringAt(current, 2, 'TH') || stringAt(current, 3, 'TTH')) {
+					// 'Thomas', 'Thames' or Germanic
+					if (stringAt(current + 2, 2, 'OM', 'AM') || stringAt(0, 4, 'VAN ', 'VON ') || stringAt(0, 3, 'SCH')) {
+						add('T');
+					} else {
+						add('0', 'T');
+					}
+					current += 2;
+					break;
+				}
+				add('T');
+				current += stringAt(current + 1, 1, 'T', 'D') ? 2 : 1;
+				break;
+
+			case 'V':
+				add('F');
+				current += charAt(current + 1) === 'V' ? 2 : 1;
+				break;
+
+			case 'W':
+				if (stringAt(current, 2, 'WR')) {
+					add('R');
+					current += 2;
+					break;
+				}
+				if (current === 0 && (isVowel(current + 1) || stringAt(current, 2, 'WH'))) {
+					// 'Wasserman' should match 'Vasserman', 'Uomo' should match 'Womo'
+					if (isVowel(current + 1)) add('A', 'F');
+					else add('A');
+				}
+				// 'Arnow' should match 'Arnoff'
+				if (
+					(current === last && isVowel(current - 1)) ||
+					stringAt(current - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+					stringAt(0, 3, 'SCH')
+				) {
+					add('', 'F');
+					current++;
+					break;
+				}
+				// Polish, e.g. 'Filipowicz'
+				if (stringAt(current, 4, 'WICZ', 'WITZ')) {
+					add('TS', 'FX');
+					current += 4;
+					break;
+				}
+				current++;
+				break;
+
+			case 'X':
+				// French, e.g. 'Breaux'
+				if (!(current === last && (stringAt(current - 3, 3, 'IAU', 'EAU') || stringAt(current - 2, 2, 'AU', 'OU')))) {
+					add('KS');
+				}
+				current += stringAt(current + 1, 1, 'C', 'X') ? 2 : 1;
+				break;
+
+			case 'Z':
+				// Chinese pinyin, e.g. 'Zhao'
+				if (charAt(current + 1) === 'H') {
+					add('J');
+					current += 2;
+					break;
+				}
+				if (stringAt(current + 1, 2, 'ZO', 'ZI', 'ZA') || (slavoGermanic && current > 0 && charAt(current - 1) !== 'T')) {
+					add('S', 'TS');
+				} else {
+					add('S');
+				}
+				current += charAt(current + 1) === 'Z' ? 2 : 1;
+				break;
+
+			default:
+				current++;
+		}
 	}
 
-	// Common domain typo corrections
-	const domainCorrections: Record<string, string> = {
-		'gmial.com': 'gmail.com',
-		'gmal.com': 'gmail.com',
-		'gamil.com': 'gmail.com',
-		'gnail.com': 'gmail.com',
-		'gmaill.com': 'gmail.com',
-		'hotmal.com': 'hotmail.com',
-		'hotmai.com': 'hotmail.com',
-		'hotamil.com': 'hotmail.com',
-		'yahooo.com': 'yahoo.com',
-		'yaho.com': 'yahoo.com',
-		'outloo.com': 'outlook.com',
-		'outlok.com': 'outlook.com',
+	return { primary: primary.slice(0, 4), alternate: alternate.slice(0, 4) };
+}
+
+/**
+ * Encodes a single word with the given phonetic algorithm.
+ * Double Metaphone returns its primary code.
+ */
+function encodeWord(word: string, algorithm: PhoneticAlgorithm): string {
+	switch (algorithm) {
+		case 'refinedSoundex':
+			return refinedSoundex(word);
+		case 'metaphone':
+			return metaphone(word);
+		case 'doubleMetaphone':
+			return doubleMetaphone(word).primary;
+		case 'nysiis':
+			return nysiis(word);
+		case 'soundex':
+		default:
+			return soundex(word);
+	}
+}
+
+/**
+ * Generates a phonetic key for a string by encoding each word separately
+ * (e.g. "John Smith" with Soundex -> "J500 S530").
+ *
+ * @param str - The string to encode
+ * @param algorithm - Phonetic algorithm to use (default: soundex)
+ * @returns Space-separated phonetic codes, one per word
+ */
+export function phoneticKey(str: string, algorithm: PhoneticAlgorithm = 'soundex'): string {
+	return tokenize(str)
+		.map((word) => encodeWord(word, algorithm))
+		.filter((code) => code.length > 0)
+		.join(' ');
+}
+
+/**
+ * Generates Double Metaphone primary and alternate keys for a string,
+ * encoding each word separately (e.g. "Anna Schmidt" -> "AN XMT" / "AN SMT").
+ *
+ * @param str - The string to encode
+ * @returns Space-separated primary and alternate codes
+ */
+export function doubleMetaphoneKey(str: string): { primary: string; alternate: string } {
+	const codes = tokenize(str)
+		.map((word) => doubleMetaphone(word))
+		.filter((code) => code.primary.length > 0 || code.alternate.length > 0);
+
+	return {
+		primary: codes.map((code) => code.primary).join(' '),
+		alternate: codes.map((code) => code.alternate).join(' '),
 	};
+}
 
-	const domain = normalized.slice(atIndex + 1);
-	const correctedDomain = domainCorrections[domain] || domain;
+/**
+ * Phonetic similarity - encodes each word of both strings and returns the share of
+ * words that sound alike (Dice coefficient over the phonetic codes). With Double
+ * Metaphone two words sound alike if any of their primary/alternate codes agree.
+ * "Catherine Schmidt" vs "Kathryn Smith" scores 1.0 with Double Metaphone.
+ *
+ * @param str1 - First string to compare
+ * @param str2 - Second string to compare
+ * @param algorithm - Phonetic algorithm to use (default: soundex)
+ * @returns Similarity score between 0.0 and 1.0
+ */
+export function phoneticSimilarity(
+	str1: string,
+	str2: string,
+	algorithm: PhoneticAlgorithm = 'soundex',
+): number {
+	const encode = (str: string): string[][] =>
+		tokenize(str)
+			.map((word) => {
+				if (algorithm !== 'doubleMetaphone') return [encodeWord(word, algorithm)];
+				const { primary, alternate } = doubleMetaphone(word);
+				return [primary, alternate];
+			})
+			.filter((codes) => codes[0].length > 0);
+
+	const codes1 = encode(str1);
+	const codes2 = encode(str2);
+
+	if (codes1.length === 0 && codes2.length === 0) return 1.0;
+	if (codes1.length === 0 || codes2.length === 0) return 0.0;
+
+	// Pair each word with the first unused word that sounds alike
+	const used = new Set<number>();
+	let matched = 0;
+	for (const word1 of codes1) {
+		const k = codes2.findIndex((word2, index) =>
+			!used.has(index) && word2.some((code) => word1.includes(code)),
+		);
+		if (k >= 0) {
+			used.add(k);
+			matched++;
+		}
+	}
 
-	return normalized.slice(0, atIndex + 1) + correctedDomain;
+	return (2 * matched) / (codes1.length + codes2.length);
+}
+
+// ============================================================================
+// CASE CONVERSION UTILITIES
+// ============================================================================
+
+/**
+ * Converts a string to Title Case with smart handling of common patterns.
+ * Handles mixed case input like "jOhN dOE" -> "John Doe"
+ *
+ * @param str - The input string to convert
+ * @returns Title-cased string
+ */
+export function toTitleCase(str: string): string {
+	if (!str) return '';
+
+	// Common lowercase exceptions (articles, prepositions, conjunctions)
+	const exceptions = new Set([
+		'a', 'an', 'the', 'and', 'but', 'or', 'for', 'nor', 'so', 'yet',
+		'at', 'by', 'in', 'of', 'on', 'to', 'up', 'as', 'is', 'it'
+	]);
+
+	// Common uppercase exceptions (acronyms, etc.)
+	const uppercaseExceptions = new Set([
+		'usa', 'uk', 'uae', 'nyc', 'la', 'dc', 'ibm', 'nasa', 'fbi', 'cia',
+		'ceo', 'cfo', 'cto', 'coo', 'vp', 'svp', 'evp', 'md', 'phd', 'llc',
+		'inc', 'ltd', 'ii', 'iii', 'iv', 'vi', 'vii', 'viii', 'ix', 'xi'
+	]);
+
+	return str
+		.toLowerCase()
+		.split(/(\s+)/) // Split on whitespace but keep delimiters
+		.map((word, index, array) => {
+			// Skip whitespace
+			if (/^\s+$/.test(word)) return word;
+
+			const lowerWord = word.toLowerCase();
+
+			// Check for uppercase exceptions
+			if (uppercaseExceptions.has(lowerWord)) {
+				return word.toUpperCase();
+			}
+
+			// Apply lowercase exceptions (but not for first/last word)
+			const isFirstOrLast = index === 0 || index === array.length - 1;
+			if (!isFirstOrLast && exceptions.has(lowerWord)) {
+				return lowerWord;
+			}
+
+			// Standard title case: capitalize first letter
+			return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+		})
+		.join('');
+}
+
+/**
+ * Converts a string to snake_case.
+ * Handles camelCase, PascalCase, spaces, hyphens, and mixed input.
+ *
+ * @param str - The input string to convert
+ * @returns snake_case string
+ */
+export function toSnakeCase(str: string): string {
+	if (!str) return '';
+
+	return str
+		// Insert underscore before uppercase letters (for camelCase/PascalCase)
+		.replace(/([a-z])([A-Z])/g, '$1_$2')
+		// Insert underscore before sequences of uppercase followed by lowercase
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+		// Replace spaces, hyphens, dots with underscores
+		.replace(/[\s\-.]+/g, '_')
+		// Remove non-alphanumeric characters except underscores
+		.replace(/[^a-zA-Z0-9_]/g, '')
+		// Convert to lowercase
+		.toLowerCase()
+		// Remove leading/trailing underscores
+		.replace(/^_+|_+$/g, '')
+		// Collapse multiple underscores
+		.replace(/_+/g, '_');
+}
+
+/**
+ * Converts a string to camelCase.
+ * Handles snake_case, PascalCase, spaces, hyphens, and mixed input.
+ *
+ * @param str - The input string to convert
+ * @returns camelCase string
+ */
+export function toCamelCase(str: string): string {
+	if (!str) return '';
+
+	return str
+		// Replace special characters with spaces for word boundary detection
+		.replace(/[_\-.\s]+/g, ' ')
+		// Trim and lowercase
+		.trim()
+		.toLowerCase()
+		// Split into words and process
+		.split(' ')
+		.filter((word) => word.length > 0)
+		.map((word, index) => {
+			if (index === 0) {
+				// First word stays lowercase
+				return word;
+			}
+			// Capitalize first letter of subsequent words
+			return word.charAt(0).toUpperCase() + word.slice(1);
+		})
+		.join('');
+}
+
+/**
+ * Converts a string to PascalCase (UpperCamelCase).
+ *
+ * @param str - The input string to convert
+ * @returns PascalCase string
+ */
+export function toPascalCase(str: string): string {
+	const camel = toCamelCase(str);
+	if (!camel) return '';
+	return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+// ============================================================================
+// PHONE NUMBER UTILITIES
+// ============================================================================
+
+/**
+ * Numbering plan of a country or territory, used to split and validate phone numbers.
+ */
+export interface NumberingPlan {
+	/** ISO 3166-1 alpha-2 region code */
+	region: string;
+	/** ITU country calling code */
+	countryCode: string;
+	/** Shortest national significant number (without trunk prefix) */
+	minLength: number;
+	/** Longest national significant number (without trunk prefix) */
+	maxLength: number;
+	/** Prefix dialed before national numbers inside the country ('' if none) */
+	trunkPrefix: string;
+	/** Default area code length (0 if the country has no area codes) */
+	areaCodeLength: number;
+	/** Area code lengths for specific leading digits, first match wins */
+	areaCodeRules?: [RegExp, number][];
+	/** National number lengths (min, max) for specific leading digits, first match wins */
+	lengthRules?: [RegExp, number, number][];
+	/** Leading national digits that select this region when it shares its calling code */
+	leadingDigits?: RegExp;
+}
+
+/**
+ * ITU country calling codes with national number lengths, trunk prefixes and area-code
+ * lengths. Regions sharing a calling code list the main region first (without leading digits).
+ */
+const NUMBERING_PLANS: NumberingPlan[] = [
+	{ region: 'US', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3 },
+	{
+		region: 'CA', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^(?:204|226|236|249|250|263|289|306|343|354|365|367|368|382|403|416|418|428|431|437|438|450|468|474|506|514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905)/,
+	},
+	{
+		region: 'AG', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^268/,
+	},
+	{
+		region: 'AI', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^264/,
+	},
+	{
+		region: 'AS', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^684/,
+	},
+	{
+		region: 'BB', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^246/,
+	},
+	{
+		region: 'BM', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^441/,
+	},
+	{
+		region: 'BS', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^242/,
+	},
+	{
+		region: 'DM', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^767/,
+	},
+	{
+		region: 'DO', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^8[024]9/,
+	},
+	{
+		region: 'GD', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^473/,
+	},
+	{
+		region: 'GU', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^671/,
+	},
+	{
+		region: 'JM', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^(?:658|876)/,
+	},
+	{
+		region: 'KN', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^869/,
+	},
+	{
+		region: 'KY', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^345/,
+	},
+	{
+		region: 'LC', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^758/,
+	},
+	{
+		region: 'MP', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^670/,
+	},
+	{
+		region: 'MS', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^664/,
+	},
+	{
+		region: 'PR', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^(?:787|939)/,
+	},
+	{
+		region: 'SX', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^721/,
+	},
+	{
+		region: 'TC', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^649/,
+	},
+	{
+		region: 'TT', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^868/,
+	},
+	{
+		region: 'VC', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^784/,
+	},
+	{
+		region: 'VG', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^284/,
+	},
+	{
+		region: 'VI', countryCode: '1', minLength: 10, maxLength: 10, trunkPrefix: '1', areaCodeLength: 3,
+		leadingDigits: /^340/,
+	},
+	{
+		region: 'EG', countryCode: '20', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^[23]/, 1]],
+	},
+	{ region: 'SS', countryCode: '211', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'MA', countryCode: '212', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'DZ', countryCode: '213', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'TN', countryCode: '216', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 2 },
+	{ region: 'LY', countryCode: '218', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'GM', countryCode: '220', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'SN', countryCode: '221', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 2 },
+	{ region: 'MR', countryCode: '222', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'ML', countryCode: '223', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'GN', countryCode: '224', minLength: 8, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CI', countryCode: '225', minLength: 10, maxLength: 10, trunkPrefix: '', areaCodeLength: 2 },
+	{ region: 'BF', countryCode: '226', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'NE', countryCode: '227', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'TG', countryCode: '228', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'BJ', countryCode: '229', minLength: 8, maxLength: 10, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'MU', countryCode: '230', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'LR', countryCode: '231', minLength: 7, maxLength: 9, trunkPrefix: '0', areaCodeLength: 0 },
+	{ region: 'SL', countryCode: '232', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'GH', countryCode: '233', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{
+		region: 'NG', countryCode: '234', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^1/, 1], [/^[789]/, 3]],
+	},
+	{ region: 'TD', countryCode: '235', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CF', countryCode: '236', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CM', countryCode: '237', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CV', countryCode: '238', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'ST', countryCode: '239', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'GQ', countryCode: '240', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'GA', countryCode: '241', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CG', countryCode: '242', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CD', countryCode: '243', minLength: 7, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'AO', countryCode: '244', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'GW', countryCode: '245', minLength: 7, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'IO', countryCode: '246', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'SC', countryCode: '248', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'SD', countryCode: '249', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'RW', countryCode: '250', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 0 },
+	{ region: 'ET', countryCode: '251', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'SO', countryCode: '252', minLength: 7, maxLength: 9, trunkPrefix: '0', areaCodeLength: 0 },
+	{ region: 'DJ', countryCode: '253', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'KE', countryCode: '254', minLength: 7, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^[17]/, 3]],
+	},
+	{
+		region: 'TZ', countryCode: '255', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^[67]/, 3]],
+	},
+	{ region: 'UG', countryCode: '256', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3 },
+	{ region: 'BI', countryCode: '257', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'MZ', countryCode: '258', minLength: 8, maxLength: 9, trunkPrefix: '', areaCodeLength: 2 },
+	{ region: 'ZM', countryCode: '260', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'MG', countryCode: '261', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'RE', countryCode: '262', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3 },
+	{
+		region: 'YT', countryCode: '262', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3,
+		leadingDigits: /^(?:269|639)/,
+	},
+	{ region: 'ZW', countryCode: '263', minLength: 5, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'NA', countryCode: '264', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'MW', countryCode: '265', minLength: 7, maxLength: 9, trunkPrefix: '0', areaCodeLength: 0 },
+	{ region: 'LS', countryCode: '266', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'BW', countryCode: '267', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'SZ', countryCode: '268', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'KM', countryCode: '269', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'ZA', countryCode: '27', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'SH', countryCode: '290', minLength: 4, maxLength: 5, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'ER', countryCode: '291', minLength: 7, maxLength: 7, trunkPrefix: '0', areaCodeLength: 1 },
+	{ region: 'AW', countryCode: '297', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'FO', countryCode: '298', minLength: 6, maxLength: 6, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'GL', countryCode: '299', minLength: 6, maxLength: 6, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'GR', countryCode: '30', minLength: 10, maxLength: 10, trunkPrefix: '', areaCodeLength: 3 },
+	{
+		region: 'NL', countryCode: '31', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^6/, 1], [/^[1-57]0/, 2]],
+	},
+	{
+		region: 'BE', countryCode: '32', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^4[5-9]/, 3], [/^[2349]/, 1]],
+	},
+	{ region: 'FR', countryCode: '33', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1 },
+	{
+		region: 'ES', countryCode: '34', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 3,
+		areaCodeRules: [[/^9[13]/, 2]],
+	},
+	{ region: 'GI', countryCode: '350', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'PT', countryCode: '351', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 3,
+		areaCodeRules: [[/^(?:2[12]|9)/, 2]],
+	},
+	{ region: 'LU', countryCode: '352', minLength: 4, maxLength: 11, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'IE', countryCode: '353', minLength: 7, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^1(?:800\d{6}|5\d{8})$/, 4], [/^1/, 1]], lengthRules: [[/^1(?:800|5)/, 8, 10]],
+	},
+	{ region: 'IS', countryCode: '354', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'AL', countryCode: '355', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^4/, 1]],
+	},
+	{ region: 'MT', countryCode: '356', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CY', countryCode: '357', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'FI', countryCode: '358', minLength: 5, maxLength: 12, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^9/, 1]],
+	},
+	{
+		region: 'BG', countryCode: '359', minLength: 6, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^2/, 1]],
+	},
+	{
+		region: 'HU', countryCode: '36', minLength: 8, maxLength: 9, trunkPrefix: '06', areaCodeLength: 2,
+		areaCodeRules: [[/^1/, 1]],
+	},
+	{ region: 'LT', countryCode: '370', minLength: 8, maxLength: 8, trunkPrefix: '8', areaCodeLength: 3 },
+	{ region: 'LV', countryCode: '371', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'EE', countryCode: '372', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'MD', countryCode: '373', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'AM', countryCode: '374', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'BY', countryCode: '375', minLength: 9, maxLength: 9, trunkPrefix: '8', areaCodeLength: 2 },
+	{ region: 'AD', countryCode: '376', minLength: 6, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'MC', countryCode: '377', minLength: 8, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'SM', countryCode: '378', minLength: 6, maxLength: 10, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'UA', countryCode: '380', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'RS', countryCode: '381', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'ME', countryCode: '382', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'XK', countryCode: '383', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{
+		region: 'HR', countryCode: '385', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^1/, 1]],
+	},
+	{
+		region: 'SI', countryCode: '386', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^1/, 1]],
+	},
+	{ region: 'BA', countryCode: '387', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{
+		region: 'MK', countryCode: '389', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^2/, 1]],
+	},
+	{
+		region: 'IT', countryCode: '39', minLength: 6, maxLength: 11, trunkPrefix: '', areaCodeLength: 3,
+		areaCodeRules: [[/^0[26]/, 2]],
+	},
+	{
+		region: 'VA', countryCode: '39', minLength: 6, maxLength: 11, trunkPrefix: '', areaCodeLength: 3,
+		leadingDigits: /^06698/,
+	},
+	{
+		region: 'RO', countryCode: '40', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^21/, 2]],
+	},
+	{ region: 'CH', countryCode: '41', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'CZ', countryCode: '420', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'SK', countryCode: '421', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^2/, 1], [/^9/, 3]],
+	},
+	{ region: 'LI', countryCode: '423', minLength: 7, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'AT', countryCode: '43', minLength: 4, maxLength: 13, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^1/, 1]],
+	},
+	{
+		region: 'GB', countryCode: '44', minLength: 7, maxLength: 10, trunkPrefix: '0', areaCodeLength: 4,
+		areaCodeRules: [[/^2/, 2], [/^(?:1[1-9]1|11)/, 3], [/^[389]/, 3]],
+	},
+	{
+		region: 'GG', countryCode: '44', minLength: 7, maxLength: 10, trunkPrefix: '0', areaCodeLength: 4,
+		leadingDigits: /^(?:1481|7781|7839|7911)/,
+	},
+	{
+		region: 'JE', countryCode: '44', minLength: 7, maxLength: 10, trunkPrefix: '0', areaCodeLength: 4,
+		leadingDigits: /^(?:1534|7509|7700|7797|7829|7937)/,
+	},
+	{
+		region: 'IM', countryCode: '44', minLength: 7, maxLength: 10, trunkPrefix: '0', areaCodeLength: 4,
+		leadingDigits: /^(?:1624|7524|7624|7924)/,
+	},
+	{ region: 'DK', countryCode: '45', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'SE', countryCode: '46', minLength: 7, maxLength: 10, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^8/, 1], [/^(?:7|1[013689]|2[0136]|3[1356]|4[0246]|54|6[03]|90)/, 2]],
+	},
+	{ region: 'NO', countryCode: '47', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'PL', countryCode: '48', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 2,
+		areaCodeRules: [[/^(?:5[0137]|6[069]|7[2389]|88)/, 3]],
+	},
+	{
+		region: 'DE', countryCode: '49', minLength: 5, maxLength: 13, trunkPrefix: '0', areaCodeLength: 4,
+		areaCodeRules: [[/^(?:30|40|69|89)/, 2], [/^15/, 4], [/^1[67]/, 3], [/^[2-9]\d1/, 3]],
+	},
+	{ region: 'FK', countryCode: '500', minLength: 5, maxLength: 5, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'BZ', countryCode: '501', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'GT', countryCode: '502', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'SV', countryCode: '503', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'HN', countryCode: '504', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'NI', countryCode: '505', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CR', countryCode: '506', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'PA', countryCode: '507', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'PM', countryCode: '508', minLength: 6, maxLength: 6, trunkPrefix: '0', areaCodeLength: 0 },
+	{ region: 'HT', countryCode: '509', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'PE', countryCode: '51', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^1/, 1], [/^9/, 3]],
+	},
+	{
+		region: 'MX', countryCode: '52', minLength: 10, maxLength: 10, trunkPrefix: '', areaCodeLength: 3,
+		areaCodeRules: [[/^(?:33|55|81)/, 2]],
+	},
+	{
+		region: 'CU', countryCode: '53', minLength: 6, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^7/, 1]],
+	},
+	{
+		region: 'AR', countryCode: '54', minLength: 10, maxLength: 11, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^11/, 2]],
+	},
+	{ region: 'BR', countryCode: '55', minLength: 10, maxLength: 11, trunkPrefix: '0', areaCodeLength: 2 },
+	{
+		region: 'CL', countryCode: '56', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 2,
+		areaCodeRules: [[/^[29]/, 1]],
+	},
+	{ region: 'CO', countryCode: '57', minLength: 10, maxLength: 10, trunkPrefix: '', areaCodeLength: 3 },
+	{ region: 'VE', countryCode: '58', minLength: 10, maxLength: 10, trunkPrefix: '0', areaCodeLength: 3 },
+	{ region: 'GP', countryCode: '590', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3 },
+	{ region: 'BO', countryCode: '591', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 1 },
+	{ region: 'GY', countryCode: '592', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'EC', countryCode: '593', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1,
+		areaCodeRules: [[/^9/, 2]],
+	},
+	{ region: 'GF', countryCode: '594', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3 },
+	{
+		region: 'PY', countryCode: '595', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^21/, 2]],
+	},
+	{ region: 'MQ', countryCode: '596', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3 },
+	{ region: 'SR', countryCode: '597', minLength: 6, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'UY', countryCode: '598', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^2/, 1]],
+	},
+	{ region: 'CW', countryCode: '599', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'BQ', countryCode: '599', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0,
+		leadingDigits: /^[347]/,
+	},
+	{
+		region: 'MY', countryCode: '60', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 1,
+		areaCodeRules: [[/^[18]/, 2]],
+	},
+	{
+		region: 'AU', countryCode: '61', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1,
+		areaCodeRules: [[/^1[38]00/, 4], [/^4/, 3]], lengthRules: [[/^1(?:[38]00|90)/, 10, 10]],
+	},
+	{
+		region: 'ID', countryCode: '62', minLength: 8, maxLength: 12, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^(?:21|22|24|31|61)/, 2]],
+	},
+	{
+		region: 'PH', countryCode: '63', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^2/, 1], [/^9/, 3]],
+	},
+	{
+		region: 'NZ', countryCode: '64', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 1,
+		areaCodeRules: [[/^2/, 2]],
+	},
+	{ region: 'SG', countryCode: '65', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'TH', countryCode: '66', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^2/, 1]],
+	},
+	{ region: 'TL', countryCode: '670', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'NF', countryCode: '672', minLength: 6, maxLength: 6, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'BN', countryCode: '673', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'NR', countryCode: '674', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'PG', countryCode: '675', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'TO', countryCode: '676', minLength: 5, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'SB', countryCode: '677', minLength: 5, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'VU', countryCode: '678', minLength: 5, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'FJ', countryCode: '679', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'PW', countryCode: '680', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'WF', countryCode: '681', minLength: 6, maxLength: 6, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'CK', countryCode: '682', minLength: 5, maxLength: 5, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'NU', countryCode: '683', minLength: 4, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'WS', countryCode: '685', minLength: 5, maxLength: 10, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'KI', countryCode: '686', minLength: 5, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'NC', countryCode: '687', minLength: 6, maxLength: 6, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'TV', countryCode: '688', minLength: 5, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'PF', countryCode: '689', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'TK', countryCode: '690', minLength: 4, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'FM', countryCode: '691', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'MH', countryCode: '692', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'RU', countryCode: '7', minLength: 10, maxLength: 10, trunkPrefix: '8', areaCodeLength: 3 },
+	{
+		region: 'KZ', countryCode: '7', minLength: 10, maxLength: 10, trunkPrefix: '8', areaCodeLength: 3,
+		leadingDigits: /^[67]/,
+	},
+	{
+		region: 'JP', countryCode: '81', minLength: 9, maxLength: 10, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^[36]/, 1], [/^(?:[789]0|11|22|45|52|75|78|82|92)/, 2]],
+	},
+	{
+		region: 'KR', countryCode: '82', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^2/, 1]],
+	},
+	{
+		region: 'VN', countryCode: '84', minLength: 9, maxLength: 10, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^(?:2[48]|[35789])/, 2]],
+	},
+	{ region: 'KP', countryCode: '850', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 0 },
+	{ region: 'HK', countryCode: '852', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'MO', countryCode: '853', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'KH', countryCode: '855', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'LA', countryCode: '856', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2 },
+	{
+		region: 'CN', countryCode: '86', minLength: 7, maxLength: 11, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^1[3-9]/, 3], [/^(?:10|2)/, 2]],
+	},
+	{
+		region: 'BD', countryCode: '880', minLength: 6, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^2/, 1]],
+	},
+	{
+		region: 'TW', countryCode: '886', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1,
+		areaCodeRules: [[/^9/, 3]],
+	},
+	{ region: 'TR', countryCode: '90', minLength: 10, maxLength: 10, trunkPrefix: '0', areaCodeLength: 3 },
+	{
+		region: 'IN', countryCode: '91', minLength: 10, maxLength: 10, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^(?:11|20|22|33|40|44|79|80)/, 2], [/^[6-9]/, 0]],
+	},
+	{
+		region: 'PK', countryCode: '92', minLength: 9, maxLength: 10, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^(?:21|42|51)/, 2]],
+	},
+	{ region: 'AF', countryCode: '93', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{ region: 'LK', countryCode: '94', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{
+		region: 'MM', countryCode: '95', minLength: 7, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^1/, 1]],
+	},
+	{ region: 'MV', countryCode: '960', minLength: 7, maxLength: 7, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'LB', countryCode: '961', minLength: 7, maxLength: 8, trunkPrefix: '0', areaCodeLength: 1 },
+	{ region: 'JO', countryCode: '962', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1 },
+	{
+		region: 'SY', countryCode: '963', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^9/, 3]],
+	},
+	{
+		region: 'IQ', countryCode: '964', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^1/, 1], [/^7/, 3]],
+	},
+	{ region: 'KW', countryCode: '965', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{
+		region: 'SA', countryCode: '966', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1,
+		areaCodeRules: [[/^5/, 2]],
+	},
+	{ region: 'YE', countryCode: '967', minLength: 7, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1 },
+	{ region: 'OM', countryCode: '968', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'PS', countryCode: '970', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1 },
+	{
+		region: 'AE', countryCode: '971', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1,
+		areaCodeRules: [[/^5/, 2]],
+	},
+	{
+		region: 'IL', countryCode: '972', minLength: 8, maxLength: 9, trunkPrefix: '0', areaCodeLength: 1,
+		areaCodeRules: [[/^[57]/, 2]],
+	},
+	{ region: 'BH', countryCode: '973', minLength: 8, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'QA', countryCode: '974', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'BT', countryCode: '975', minLength: 7, maxLength: 8, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'MN', countryCode: '976', minLength: 8, maxLength: 8, trunkPrefix: '0', areaCodeLength: 2 },
+	{
+		region: 'NP', countryCode: '977', minLength: 8, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^1/, 1], [/^9/, 3]],
+	},
+	{
+		region: 'IR', countryCode: '98', minLength: 10, maxLength: 10, trunkPrefix: '0', areaCodeLength: 2,
+		areaCodeRules: [[/^9/, 3]],
+	},
+	{ region: 'TJ', countryCode: '992', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 0 },
+	{ region: 'TM', countryCode: '993', minLength: 8, maxLength: 8, trunkPrefix: '8', areaCodeLength: 0 },
+	{ region: 'AZ', countryCode: '994', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 2 },
+	{
+		region: 'GE', countryCode: '995', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3,
+		areaCodeRules: [[/^32/, 2]],
+	},
+	{ region: 'KG', countryCode: '996', minLength: 9, maxLength: 9, trunkPrefix: '0', areaCodeLength: 3 },
+	{ region: 'UZ', countryCode: '998', minLength: 9, maxLength: 9, trunkPrefix: '', areaCodeLength: 2 },
+];
+
+/**
+ * Node of the calling code prefix trie.
+ */
+interface CallingCodeNode {
+	children: Map<string, CallingCodeNode>;
+	/** Plans whose calling code ends at this node */
+	plans: NumberingPlan[];
+}
+
+/**
+ * Builds a digit trie over the calling codes of the given plans.
+ */
+function buildCallingCodeTrie(plans: NumberingPlan[]): CallingCodeNode {
+	const root: CallingCodeNode = { children: new Map(), plans: [] };
+	for (const plan of plans) {
+		let node = root;
+		for (const digit of plan.countryCode) {
+			let child = node.children.get(digit);
+			if (!child) {
+				child = { children: new Map(), plans: [] };
+				node.children.set(digit, child);
+			}
+			node = child;
+		}
+		node.plans.push(plan);
+	}
+	return root;
+}
+
+const CALLING_CODE_TRIE = buildCallingCodeTrie(NUMBERING_PLANS);
+
+/**
+ * Picks the region of a shared calling code whose leading digits match the national number.
+ */
+function selectPlan(plans: NumberingPlan[], nationalNumber: string): NumberingPlan {
+	return plans.find((plan) => plan.leadingDigits?.test(nationalNumber))
+		?? plans.find((plan) => !plan.leadingDigits)
+		?? plans[0];
+}
+
+/**
+ * Splits an international number (digits after the +) into its calling code and
+ * national number. Calling codes are prefix-free, so the first code on the trie path wins.
+ *
+ * @param digits - Digits of the number, starting with the calling code
+ * @returns The matching numbering plan and national number, or null for unassigned codes
+ */
+export function splitCallingCode(
+	digits: string,
+): { plan: NumberingPlan; nationalNumber: string } | null {
+	let node: CallingCodeNode | undefined = CALLING_CODE_TRIE;
+	for (let i = 0; i < Math.min(3, digits.length); i++) {
+		node = node.children.get(digits[i]);
+		if (!node) return null;
+		if (node.plans.length > 0) {
+			const nationalNumber = digits.slice(i + 1);
+			return { plan: selectPlan(node.plans, nationalNumber), nationalNumber };
+		}
+	}
+	return null;
+}
+
+/**
+ * Returns the main numbering plan of a calling code, or undefined if it is not assigned.
+ *
+ * @param countryCode - Calling code without + (e.g., "44")
+ * @returns Numbering plan of the code's main region
+ */
+export function findNumberingPlan(countryCode: string): NumberingPlan | undefined {
+	const digits = (countryCode || '').replace(/\D/g, '');
+	const match = splitCallingCode(digits);
+	return match && match.nationalNumber === '' ? match.plan : undefined;
+}
+
+/**
+ * ISO 3166 alpha-3 code (first entry), English name and common aliases of each
+ * region in the numbering plan table, keyed by alpha-2 code.
+ */
+const COUNTRY_NAMES: Record<string, string[]> = {
+	AD: ['AND', 'Andorra'],
+	AE: ['ARE', 'United Arab Emirates', 'UAE', 'Emirates'],
+	AF: ['AFG', 'Afghanistan'],
+	AG: ['ATG', 'Antigua and Barbuda', 'Antigua'],
+	AI: ['AIA', 'Anguilla'],
+	AL: ['ALB', 'Albania'],
+	AM: ['ARM', 'Armenia'],
+	AO: ['AGO', 'Angola'],
+	AR: ['ARG', 'Argentina'],
+	AS: ['ASM', 'American Samoa'],
+	AT: ['AUT', 'Austria', 'Österreich'],
+	AU: ['AUS', 'Australia'],
+	AW: ['ABW', 'Aruba'],
+	AZ: ['AZE', 'Azerbaijan'],
+	BA: ['BIH', 'Bosnia and Herzegovina', 'Bosnia'],
+	BB: ['BRB', 'Barbados'],
+	BD: ['BGD', 'Bangladesh'],
+	BE: ['BEL', 'Belgium', 'België', 'Belgique'],
+	BF: ['BFA', 'Burkina Faso'],
+	BG: ['BGR', 'Bulgaria'],
+	BH: ['BHR', 'Bahrain'],
+	BI: ['BDI', 'Burundi'],
+	BJ: ['BEN', 'Benin'],
+	BM: ['BMU', 'Bermuda'],
+	BN: ['BRN', 'Brunei', 'Brunei Darussalam'],
+	BO: ['BOL', 'Bolivia'],
+	BQ: ['BES', 'Caribbean Netherlands', 'Bonaire'],
+	BR: ['BRA', 'Brazil', 'Brasil'],
+	BS: ['BHS', 'Bahamas'],
+	BT: ['BTN', 'Bhutan'],
+	BW: ['BWA', 'Botswana'],
+	BY: ['BLR', 'Belarus'],
+	BZ: ['BLZ', 'Belize'],
+	CA: ['CAN', 'Canada'],
+	CD: ['COD', 'Democratic Republic of the Congo', 'DR Congo', 'Congo-Kinshasa'],
+	CF: ['CAF', 'Central African Republic'],
+	CG: ['COG', 'Republic of the Congo', 'Congo', 'Congo-Brazzaville'],
+	CH: ['CHE', 'Switzerland', 'Schweiz', 'Suisse', 'Svizzera'],
+	CI: ['CIV', "Côte d'Ivoire", 'Ivory Coast'],
+	CK: ['COK', 'Cook Islands'],
+	CL: ['CHL', 'Chile'],
+	CM: ['CMR', 'Cameroon'],
+	CN: ['CHN', 'China', "People's Republic of China"],
+	CO: ['COL', 'Colombia'],
+	CR: ['CRI', 'Costa Rica'],
+	CU: ['CUB', 'Cuba'],
+	CV: ['CPV', 'Cape Verde', 'Cabo Verde'],
+	CW: ['CUW', 'Curaçao'],
+	CY: ['CYP', 'Cyprus'],
+	CZ: ['CZE', 'Czechia', 'Czech Republic'],
+	DE: ['DEU', 'Germany', 'Deutschland'],
+	DJ: ['DJI', 'Djibouti'],
+	DK: ['DNK', 'Denmark', 'Danmark'],
+	DM: ['DMA', 'Dominica'],
+	DO: ['DOM', 'Dominican Republic'],
+	DZ: ['DZA', 'Algeria'],
+	EC: ['ECU', 'Ecuador'],
+	EE: ['EST', 'Estonia'],
+	EG: ['EGY', 'Egypt'],
+	ER: ['ERI', 'Eritrea'],
+	ES: ['ESP', 'Spain', 'España'],
+	ET: ['ETH', 'Ethiopia'],
+	FI: ['FIN', 'Finland', 'Suomi'],
+	FJ: ['FJI', 'Fiji'],
+	FK: ['FLK', 'Falkland Islands'],
+	FM: ['FSM', 'Micronesia'],
+	FO: ['FRO', 'Faroe Islands'],
+	FR: ['FRA', 'France'],
+	GA: ['GAB', 'Gabon'],
+	GB: ['GBR', 'United Kingdom', 'UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+	GD: ['GRD', 'Grenada'],
+	GE: ['GEO', 'Georgia'],
+	GF: ['GUF', 'French Guiana'],
+	GG: ['GGY', 'Guernsey'],
+	GH: ['GHA', 'Ghana'],
+	GI: ['GIB', 'Gibraltar'],
+	GL: ['GRL', 'Greenland'],
+	GM: ['GMB', 'Gambia'],
+	GN: ['GIN', 'Guinea'],
+	GP: ['GLP', 'Guadeloupe'],
+	GQ: ['GNQ', 'Equatorial Guinea'],
+	GR: ['GRC', 'Greece', 'Hellas'],
+	GT: ['GTM', 'Guatemala'],
+	GU: ['GUM', 'Guam'],
+	GW: ['GNB', 'Guinea-Bissau'],
+	GY: ['GUY', 'Guyana'],
+	HK: ['HKG', 'Hong Kong'],
+	HN: ['HND', 'Honduras'],
+	HR: ['HRV', 'Croatia', 'Hrvatska'],
+	HT: ['HTI', 'Haiti'],
+	HU: ['HUN', 'Hungary', 'Magyarország'],
+	ID: ['IDN', 'Indonesia'],
+	IE: ['IRL', 'Ireland', 'Éire'],
+	IL: ['ISR', 'Israel'],
+	IM: ['IMN', 'Isle of Man'],
+	IN: ['IND', 'India'],
+	IO: ['IOT', 'British Indian Ocean Territory'],
+	IQ: ['IRQ', 'Iraq'],
+	IR: ['IRN', 'Iran'],
+	IS: ['ISL', 'Iceland'],
+	IT: ['ITA', 'Italy', 'Italia'],
+	JE: ['JEY', 'Jersey'],
+	JM: ['JAM', 'Jamaica'],
+	JO: ['JOR', 'Jordan'],
+	JP: ['JPN', 'Japan'],
+	KE: ['KEN', 'Kenya'],
+	KG: ['KGZ', 'Kyrgyzstan'],
+	KH: ['KHM', 'Cambodia'],
+	KI: ['KIR', 'Kiribati'],
+	KM: ['COM', 'Comoros'],
+	KN: ['KNA', 'Saint Kitts and Nevis'],
+	KP: ['PRK', 'North Korea'],
+	KR: ['KOR', 'South Korea', 'Korea'],
+	KW: ['KWT', 'Kuwait'],
+	KY: ['CYM', 'Cayman Islands'],
+	KZ: ['KAZ', 'Kazakhstan'],
+	LA: ['LAO', 'Laos'],
+	LB: ['LBN', 'Lebanon'],
+	LC: ['LCA', 'Saint Lucia'],
+	LI: ['LIE', 'Liechtenstein'],
+	LK: ['LKA', 'Sri Lanka'],
+	LR: ['LBR', 'Liberia'],
+	LS: ['LSO', 'Lesotho'],
+	LT: ['LTU', 'Lithuania'],
+	LU: ['LUX', 'Luxembourg'],
+	LV: ['LVA', 'Latvia'],
+	LY: ['LBY', 'Libya'],
+	MA: ['MAR', 'Morocco'],
+	MC: ['MCO', 'Monaco'],
+	MD: ['MDA', 'Moldova'],
+	ME: ['MNE', 'Montenegro'],
+	MG: ['MDG', 'Madagascar'],
+	MH: ['MHL', 'Marshall Islands'],
+	MK: ['MKD', 'North Macedonia', 'Macedonia'],
+	ML: ['MLI', 'Mali'],
+	MM: ['MMR', 'Myanmar', 'Burma'],
+	MN: ['MNG', 'Mongolia'],
+	MO: ['MAC', 'Macao', 'Macau'],
+	MP: ['MNP', 'Northern Mariana Islands'],
+	MQ: ['MTQ', 'Martinique'],
+	MR: ['MRT', 'Mauritania'],
+	MS: ['MSR', 'Montserrat'],
+	MT: ['MLT', 'Malta'],
+	MU: ['MUS', 'Mauritius'],
+	MV: ['MDV', 'Maldives'],
+	MW: ['MWI', 'Malawi'],
+	MX: ['MEX', 'Mexico', 'México'],
+	MY: ['MYS', 'Malaysia'],
+	MZ: ['MOZ', 'Mozambique'],
+	NA: ['NAM', 'Namibia'],
+	NC: ['NCL', 'New Caledonia'],
+	NE: ['NER', 'Niger'],
+	NF: ['NFK', 'Norfolk Island'],
+	NG: ['NGA', 'Nigeria'],
+	NI: ['NIC', 'Nicaragua'],
+	NL: ['NLD', 'Netherlands', 'The Netherlands', 'Holland', 'Nederland'],
+	NO: ['NOR', 'Norway', 'Norge'],
+	NP: ['NPL', 'Nepal'],
+	NR: ['NRU', 'Nauru'],
+	NU: ['NIU', 'Niue'],
+	NZ: ['NZL', 'New Zealand'],
+	OM: ['OMN', 'Oman'],
+	PA: ['PAN', 'Panama'],
+	PE: ['PER', 'Peru'],
+	PF: ['PYF', 'French Polynesia'],
+	PG: ['PNG', 'Papua New Guinea'],
+	PH: ['PHL', 'Philippines'],
+	PK: ['PAK', 'Pakistan'],
+	PL: ['POL', 'Poland', 'Polska'],
+	PM: ['SPM', 'Saint Pierre and Miquelon'],
+	PR: ['PRI', 'Puerto Rico'],
+	PS: ['PSE', 'Palestine'],
+	PT: ['PRT', 'Portugal'],
+	PW: ['PLW', 'Palau'],
+	PY: ['PRY', 'Paraguay'],
+	QA: ['QAT', 'Qatar'],
+	RE: ['REU', 'Réunion'],
+	RO: ['ROU', 'Romania'],
+	RS: ['SRB', 'Serbia'],
+	RU: ['RUS', 'Russia', 'Russian Federation'],
+	RW: ['RWA', 'Rwanda'],
+	SA: ['SAU', 'Saudi Arabia'],
+	SB: ['SLB', 'Solomon Islands'],
+	SC: ['SYC', 'Seychelles'],
+	SD: ['SDN', 'Sudan'],
+	SE: ['SWE', 'Sweden', 'Sverige'],
+	SG: ['SGP', 'Singapore'],
+	SH: ['SHN', 'Saint Helena'],
+	SI: ['SVN', 'Slovenia'],
+	SK: ['SVK', 'Slovakia'],
+	SL: ['SLE', 'Sierra Leone'],
+	SM: ['SMR', 'San Marino'],
+	SN: ['SEN', 'Senegal'],
+	SO: ['SOM', 'Somalia'],
+	SR: ['SUR', 'Suriname'],
+	SS: ['SSD', 'South Sudan'],
+	ST: ['STP', 'São Tomé and Príncipe'],
+	SV: ['SLV', 'El Salvador'],
+	SX: ['SXM', 'Sint Maarten'],
+	SY: ['SYR', 'Syria'],
+	SZ: ['SWZ', 'Eswatini', 'Swaziland'],
+	TC: ['TCA', 'Turks and Caicos Islands'],
+	TD: ['TCD', 'Chad'],
+	TG: ['TGO', 'Togo'],
+	TH: ['THA', 'Thailand'],
+	TJ: ['TJK', 'Tajikistan'],
+	TK: ['TKL', 'Tokelau'],
+	TL: ['TLS', 'Timor-Leste', 'East Timor'],
+	TM: ['TKM', 'Turkmenistan'],
+	TN: ['TUN', 'Tunisia'],
+	TO: ['TON', 'Tonga'],
+	TR: ['TUR', 'Turkey', 'Türkiye'],
+	TT: ['TTO', 'Trinidad and Tobago'],
+	TV: ['TUV', 'Tuvalu'],
+	TW: ['TWN', 'Taiwan'],
+	TZ: ['TZA', 'Tanzania'],
+	UA: ['UKR', 'Ukraine'],
+	UG: ['UGA', 'Uganda'],
+	US: ['USA', 'United States', 'United States of America', 'America'],
+	UY: ['URY', 'Uruguay'],
+	UZ: ['UZB', 'Uzbekistan'],
+	VA: ['VAT', 'Vatican City', 'Holy See'],
+	VC: ['VCT', 'Saint Vincent and the Grenadines'],
+	VE: ['VEN', 'Venezuela'],
+	VG: ['VGB', 'British Virgin Islands'],
+	VI: ['VIR', 'US Virgin Islands', 'U.S. Virgin Islands'],
+	VN: ['VNM', 'Vietnam', 'Viet Nam'],
+	VU: ['VUT', 'Vanuatu'],
+	WF: ['WLF', 'Wallis and Futuna'],
+	WS: ['WSM', 'Samoa'],
+	XK: ['XKX', 'Kosovo'],
+	YE: ['YEM', 'Yemen'],
+	YT: ['MYT', 'Mayotte'],
+	ZA: ['ZAF', 'South Africa'],
+	ZM: ['ZMB', 'Zambia'],
+	ZW: ['ZWE', 'Zimbabwe'],
+};
+
+/**
+ * Numbering plans by normalized alpha-2 code, alpha-3 code and country name.
+ */
+const COUNTRY_LOOKUP: Map<string, NumberingPlan> = (() => {
+	const lookup = new Map<string, NumberingPlan>();
+	for (const plan of NUMBERING_PLANS) {
+		for (const name of [plan.region, ...(COUNTRY_NAMES[plan.region] ?? [])]) {
+			lookup.set(normalizeUnicode(name, { expandUmlauts: false }), plan);
+		}
+	}
+	return lookup;
+})();
+
+/**
+ * Resolves a country given as ISO 3166 alpha-2 code ("FR"), alpha-3 code ("FRA")
+ * or English name ("France") to its numbering plan. Matching ignores case,
+ * diacritics and punctuation ("cote d'ivoire" finds Côte d'Ivoire).
+ *
+ * @param country - Country code or name
+ * @returns Numbering plan of the country, or undefined if it is not recognized
+ */
+export function resolveCountry(country: string): NumberingPlan | undefined {
+	if (!country || typeof country !== 'string') return undefined;
+	return COUNTRY_LOOKUP.get(normalizeUnicode(country, { expandUmlauts: false }));
+}
+
+/**
+ * Returns the shortest and longest length the plan allows for a national number.
+ */
+function lengthsOf(plan: NumberingPlan, nationalNumber: string): [number, number] {
+	const rule = plan.lengthRules?.find(([pattern]) => pattern.test(nationalNumber));
+	return rule ? [rule[1], rule[2]] : [plan.minLength, plan.maxLength];
+}
+
+/**
+ * Whether a national number has a length the plan allows.
+ */
+function fitsPlan(plan: NumberingPlan, nationalNumber: string): boolean {
+	const [minLength, maxLength] = lengthsOf(plan, nationalNumber);
+	return nationalNumber.length >= minLength && nationalNumber.length <= maxLength;
+}
+
+/**
+ * Returns the area code length of a national number under its numbering plan.
+ */
+function areaCodeLengthOf(plan: NumberingPlan, nationalNumber: string): number {
+	const rule = plan.areaCodeRules?.find(([pattern]) => pattern.test(nationalNumber));
+	return rule ? rule[1] : plan.areaCodeLength;
+}
+
+/**
+ * Returns the region plan of a national number, which differs from the given plan
+ * when another region shares its calling code (e.g., Canada within +1).
+ */
+function planOf(plan: NumberingPlan, nationalNumber: string): NumberingPlan {
+	return splitCallingCode(plan.countryCode + nationalNumber)?.plan ?? plan;
+}
+
+/**
+ * A phone number split into calling code and national number.
+ */
+interface PhoneDigits {
+	/** Calling code without + ('' when unknown) */
+	countryCode: string;
+	/** National significant number */
+	nationalNumber: string;
+	/** Numbering plan of the number, when its calling code is known */
+	plan?: NumberingPlan;
+}
+
+/**
+ * International (exit) prefixes that differ from the common "00", by region.
+ * All NANP regions dial "011".
+ */
+const INTERNATIONAL_PREFIXES: Record<string, string> = {
+	AU: '0011', BY: '810', HK: '001', ID: '001', JP: '010', KE: '000', KR: '001', KZ: '810',
+	NG: '009', RU: '810', SG: '001', TH: '001', TJ: '810', TM: '810', TZ: '000', UG: '000', UZ: '810',
+};
+
+/**
+ * Exit prefixes recognized on numbers dialed from any country, longest first so that
+ * "0011" is not read as "00" followed by the calling code 1.
+ */
+const COMMON_INTERNATIONAL_PREFIXES = ['0011', '011', '010', '810', '00'];
+
+/**
+ * Returns the prefix dialed in a country to call abroad.
+ */
+function internationalPrefixOf(plan: NumberingPlan): string {
+	return plan.countryCode === '1' ? '011' : INTERNATIONAL_PREFIXES[plan.region] ?? '00';
+}
+
+/**
+ * Splits digits starting with a calling code. A trunk prefix kept after the calling
+ * code ("+44 (0)20 7946 0958", "+7 8 912 ...") is dropped when the number only fits without it;
+ * countries without trunk prefix (Italy) keep their leading 0.
+ */
+function splitInternational(digits: string): PhoneDigits | null {
+	const match = splitCallingCode(digits);
+	if (!match) return null;
+
+	const { plan, nationalNumber } = match;
+	const { trunkPrefix } = plan;
+	if (trunkPrefix && !fitsPlan(plan, nationalNumber) && nationalNumber.startsWith(trunkPrefix)) {
+		const withoutTrunk = nationalNumber.slice(trunkPrefix.length);
+		if (fitsPlan(plan, withoutTrunk)) {
+			return { countryCode: plan.countryCode, nationalNumber: withoutTrunk, plan: planOf(plan, withoutTrunk) };
+		}
+	}
+	return { countryCode: plan.countryCode, nationalNumber, plan };
+}
+
+/**
+ * Splits digits starting with a calling code, only if the national number fits its plan.
+ */
+function splitPossibleInternational(digits: string): PhoneDigits | null {
+	const split = splitInternational(digits);
+	return split?.plan && fitsPlan(split.plan, split.nationalNumber) ? split : null;
+}
+
+/**
+ * Splits the digits of a phone number into calling code and national number.
+ * Numbers written with + are split on their calling code. Other numbers are tried, in order, as
+ * a number dialed abroad with the default country's exit prefix ("011 49 30 123456" from the US),
+ * a national number of the default country (with or without its trunk prefix), a number dialed
+ * with another common exit prefix ("0044 20 7946 0958"), and an international number missing the +.
+ */
+function splitPhoneDigits(digits: string, hasPlus: boolean, defaultCountryCode: string): PhoneDigits {
+	if (hasPlus) {
+		return splitInternational(digits) ?? { countryCode: '', nationalNumber: digits };
+	}
+
+	const defaultPlan = findNumberingPlan(defaultCountryCode);
+	if (defaultPlan) {
+		const exitPrefix = internationalPrefixOf(defaultPlan);
+		if (digits.startsWith(exitPrefix)) {
+			const international = splitPossibleInternational(digits.slice(exitPrefix.length));
+			if (international) return international;
+		}
+
+		const { trunkPrefix } = defaultPlan;
+		if (trunkPrefix && digits.startsWith(trunkPrefix)) {
+			const nationalNumber = digits.slice(trunkPrefix.length);
+			if (fitsPlan(defaultPlan, nationalNumber)) {
+				return { countryCode: defaultPlan.countryCode, nationalNumber, plan: planOf(defaultPlan, nationalNumber) };
+			}
+		}
+		if (fitsPlan(defaultPlan, digits)) {
+			return { countryCode: defaultPlan.countryCode, nationalNumber: digits, plan: planOf(defaultPlan, digits) };
+		}
+	}
+
+	// Number dialed with the exit prefix of another country
+	for (const exitPrefix of COMMON_INTERNATIONAL_PREFIXES) {
+		if (!digits.startsWith(exitPrefix)) continue;
+		const international = splitPossibleInternational(digits.slice(exitPrefix.length));
+		if (international) return international;
+	}
+
+	// International number written without +
+	const international = splitPossibleInternational(digits);
+	if (international) return international;
+
+	// Short numbers are assumed local to the default country, long ones international
+	if (digits.length <= 10) {
+		return {
+			countryCode: defaultCountryCode,
+			nationalNumber: digits,
+			plan: defaultPlan && planOf(defaultPlan, digits),
+		};
+	}
+	return splitInternational(digits) ?? { countryCode: '', nationalNumber: digits };
+}
+
+/**
+ * Line type of a phone number.
+ * - mobile / landline: from the number ranges of the country
+ * - fixedOrMobile: the country does not tell them apart (NANP)
+ * - tollFree / premium: freephone and premium-rate service numbers
+ * - unknown: the country or the range is not in the table
+ */
+export type PhoneNumberType = 'mobile' | 'landline' | 'fixedOrMobile' | 'tollFree' | 'premium' | 'unknown';
+
+/**
+ * Leading national digits of each line type in a country, checked in the order
+ * toll-free, premium, mobile, fixed-or-mobile, landline.
+ */
+interface PhoneTypeRanges {
+	tollFree?: RegExp;
+	premium?: RegExp;
+	mobile?: RegExp;
+	fixedOrMobile?: RegExp;
+	landline?: RegExp;
+}
+
+/**
+ * Number ranges by calling code: NANP, the UK and the larger EU countries.
+ */
+const PHONE_TYPE_RANGES: Record<string, PhoneTypeRanges> = {
+	'1': { tollFree: /^8(?:00|33|44|55|66|77|88)/, premium: /^900/, fixedOrMobile: /^[2-9]/ },
+	'30': { tollFree: /^800/, premium: /^90/, mobile: /^69/, landline: /^2/ },
+	'31': { tollFree: /^800/, premium: /^90[069]/, mobile: /^6/, landline: /^[1-57]/ },
+	'32': { tollFree: /^800/, premium: /^(?:70|90)/, mobile: /^4[5-9]/, landline: /^[1-9]/ },
+	'33': { tollFree: /^80/, premium: /^8[1-9]/, mobile: /^[67]/, landline: /^[1-59]/ },
+	'34': { tollFree: /^900/, premium: /^(?:80[3-7]|90[5-7])/, mobile: /^(?:6|7[1-9])/, landline: /^[89]/ },
+	'36': { tollFree: /^80/, premium: /^90/, mobile: /^(?:20|3[01]|50|70)/, landline: /^[1-9]/ },
+	'39': { tollFree: /^80[03]/, premium: /^89/, mobile: /^3/, landline: /^0/ },
+	'40': { tollFree: /^800/, premium: /^90/, mobile: /^7/, landline: /^[23]/ },
+	'41': { tollFree: /^800/, premium: /^90/, mobile: /^7[5-9]/, landline: /^(?:[2-6]|81)/ },
+	'420': { tollFree: /^800/, premium: /^90/, mobile: /^[67]/, landline: /^[2-5]/ },
+	'43': { tollFree: /^800/, premium: /^9[0-3]/, mobile: /^6[5-9]/, landline: /^[1-57]/ },
+	'44': { tollFree: /^80[08]/, premium: /^9[018]/, mobile: /^7(?:[1-57-9]|624)/, landline: /^[123]/ },
+	'46': { tollFree: /^20/, premium: /^9/, mobile: /^7[02369]/, landline: /^[1-68]/ },
+	'48': { tollFree: /^800/, premium: /^70/, mobile: /^(?:5[0137]|6[069]|7[2389]|88)/, landline: /^[1-9]/ },
+	'49': { tollFree: /^800/, premium: /^900/, mobile: /^1[5-7]/, landline: /^[2-9]/ },
+	'351': { tollFree: /^800/, premium: /^76/, mobile: /^9[1236]/, landline: /^2/ },
+	'353': { tollFree: /^1800\d{6}$/, premium: /^15\d{8}$/, mobile: /^8[35-9]/, landline: /^[1-9]/ },
+	'358': { tollFree: /^800/, premium: /^[67]0/, mobile: /^(?:4|50)/, landline: /^[1-9]/ },
+	'61': { tollFree: /^1800/, premium: /^190/, mobile: /^4/, landline: /^[2378]/ },
+};
+
+/**
+ * Detects the line type of a national number from the number ranges of its country.
+ *
+ * @param countryCode - Calling code without + (e.g., "44")
+ * @param nationalNumber - National significant number (without trunk prefix)
+ * @returns Line type, or "unknown" when the country or range is not covered
+ */
+export function detectPhoneType(countryCode: string, nationalNumber: string): PhoneNumberType {
+	const ranges = PHONE_TYPE_RANGES[countryCode];
+	if (!ranges || !nationalNumber) return 'unknown';
+
+	const order: Exclude<PhoneNumberType, 'unknown'>[] = ['tollFree', 'premium', 'mobile', 'fixedOrMobile', 'landline'];
+	return order.find((type) => ranges[type]?.test(nationalNumber)) ?? 'unknown';
+}
+
+/**
+ * Telephone keypad digit of each letter (ITU E.161).
+ */
+const KEYPAD_DIGITS: Record<string, string> = {
+	A: '2', B: '2', C: '2', D: '3', E: '3', F: '3', G: '4', H: '4', I: '4',
+	J: '5', K: '5', L: '5', M: '6', N: '6', O: '6', P: '7', Q: '7', R: '7', S: '7',
+	T: '8', U: '8', V: '8', W: '9', X: '9', Y: '9', Z: '9',
+};
+
+/**
+ * A toll-free or area-code prefix that a vanity word may follow after a space or dot
+ * ("1 800 FLOWERS", "(800) FLOWERS", "1.800.FLOWERS").
+ */
+const VANITY_PREFIX_PATTERN = /^\D*?(?:\+?1[-.\s]?)?(?:\(\d{3}\)|\d{3})[.\s]+$/;
+
+/**
+ * Converts the letters of a vanity number to their keypad digits
+ * ("1-800-FLOWERS" becomes "1-800-3569377"). Only letter runs inside the dial string
+ * (after the first digit and joined to a digit or hyphen, or right after a toll-free or
+ * area-code prefix) are converted, so labels such as "Tel:", "(home)" or "cell" and
+ * extension markers ("ext. 12") stay as they are.
+ *
+ * @param phone - Phone number that may contain letters
+ * @returns The number with its vanity letters replaced by digits
+ */
+export function convertVanityNumber(phone: string): string {
+	if (!phone || typeof phone !== 'string') {
+		return phone || '';
+	}
+
+	const firstDigit = phone.search(/\d/);
+	if (firstDigit === -1) return phone;
+
+	return phone.replace(/[A-Za-z]+/g, (letters: string, offset: number) => {
+		if (offset < firstDigit) return letters;
+
+		const before = phone.charAt(offset - 1);
+		const after = phone.charAt(offset + letters.length);
+		const isJoined = /[\d-]/.test(before) || /[\d-]/.test(after);
+		if (!isJoined && !VANITY_PREFIX_PATTERN.test(phone.slice(0, offset))) return letters;
+
+		// A label word starts a new segment ("555-1234 home-555-9876"), it does not continue the number
+		const isLabel = Object.prototype.hasOwnProperty.call(PHONE_LABEL_WORDS, letters.toLowerCase()) && !/[\d-]/.test(before);
+		const isExtension = /^(?:ext|x|extension)$/i.test(letters)
+			&& /^\.?\s*\d/.test(phone.slice(offset + letters.length));
+		if (isLabel || isExtension) return letters;
+		return letters.toUpperCase().split('').map((letter) => KEYPAD_DIGITS[letter]).join('');
+	});
+}
+
+/**
+ * Cleans and formats a phone number to E.164 format.
+ * Uses the embedded numbering plan table instead of external libraries: national
+ * numbers lose their trunk prefix ("06 12 34 56 78" with default 33 becomes
+ * +33612345678) and international numbers are split on their calling code.
+ *
+ * E.164 format: +[country code][number] (max 15 digits total)
+ * Example: +15550001111
+ *
+ * @param phone - The input phone number string
+ * @param defaultCountryCode - Default country code if none detected (default: "1" for US)
+ * @returns Formatted E.164 phone number or original if invalid
+ */
+export function cleanPhoneNumber(
+	phone: string,
+	defaultCountryCode: string = '1'
+): string {
+	if (!phone || typeof phone !== 'string') {
+		return phone || '';
+	}
+
+	// Remove all non-numeric characters except leading +
+	const hasPlus = phone.trim().startsWith('+');
+	const digitsOnly = phone.replace(/\D/g, '');
+
+	if (digitsOnly.length === 0) {
+		return phone; // Return original if no digits found
+	}
+
+	// Split into calling code and national number using the numbering plan table
+	// (this also drops an exit prefix such as 00 or 011)
+	const { countryCode, nationalNumber } = splitPhoneDigits(digitsOnly, hasPlus, defaultCountryCode);
+
+	// No calling code fits the number (e.g., a UK national number with default 1)
+	if (!countryCode) {
+		return phone; // Return original rather than "+" and the raw digits
+	}
+
+	// Validate: E.164 allows max 15 digits
+	if (countryCode.length + nationalNumber.length > 15) {
+		return phone; // Return original if too long
+	}
+
+	return `+${countryCode}${nationalNumber}`;
+}
+
+/**
+ * Label of a phone number in a list of numbers ("Cell: 555-333-4444").
+ */
+export type PhoneLabel = 'home' | 'cell' | 'work' | 'fax' | 'other';
+
+/**
+ * Label words and abbreviations, by the label they stand for.
+ */
+const PHONE_LABEL_WORDS: Record<string, PhoneLabel> = {
+	home: 'home', h: 'home', residence: 'home', private: 'home',
+	cell: 'cell', c: 'cell', mobile: 'cell', mob: 'cell', m: 'cell',
+	work: 'work', w: 'work', office: 'work', o: 'work', business: 'work',
+	fax: 'fax', f: 'fax',
+	tel: 'other', telephone: 'other', phone: 'other', ph: 'other',
+};
+
+const PHONE_LABEL_PATTERN = Object.keys(PHONE_LABEL_WORDS).join('|');
+
+/**
+ * A label followed by a colon, where a new number starts ("Cell: ...")
+ */
+const LABEL_START_PATTERN = new RegExp(`(?=\\b(?:${PHONE_LABEL_PATTERN})\\s*:)`, 'i');
+
+/**
+ * A label without a colon between two numbers ("h 555-111-2222 m 555-333-4444")
+ */
+const LABEL_BETWEEN_PATTERN = new RegExp(`(?<=\\d)\\s+(?=(?:${PHONE_LABEL_PATTERN})\\b\\.?\\s*[+(\\d])`, 'i');
+
+/**
+ * A "/" without spaces between two numbers of at least 7 digits each
+ * ("555-111-2222/555-333-4444"), unlike the area code slash of "030/1234567"
+ */
+const SLASH_BETWEEN_PATTERN = /(?<=(?:\d[\s().-]*){7})\/(?=(?:[\s().+-]*\d){7})/;
+
+/**
+ * A label in front of the number ("Home: ", "(w) ", "mobile - ")
+ */
+const LEADING_LABEL_PATTERN = new RegExp(`^\\(?(${PHONE_LABEL_PATTERN})\\b\\)?\\.?\\s*[:-]?\\s*`, 'i');
+
+/**
+ * A label behind the number ("555-1234 (home)", "555-1234 - cell")
+ */
+const TRAILING_LABEL_PATTERN = new RegExp(`\\s*[-(]?\\s*\\b(${PHONE_LABEL_PATTERN})\\b\\.?\\)?$`, 'i');
+
+/**
+ * A phone number found in a list of numbers, with its label.
+ */
+export interface LabeledPhone {
+	/** Detected label, "other" if there is none */
+	label: PhoneLabel;
+	/** The number as written, without its label */
+	text: string;
+}
+
+/**
+ * Splits a field holding several phone numbers ("Home: 555-111-2222 / Cell: 555-333-4444")
+ * into its numbers. Numbers are separated by new lines, ";", ",", "|", a "/" between
+ * spaces or between two full numbers, "or"/"and", or by the start of the next label.
+ *
+ * @param text - Field value with one or more phone numbers
+ * @returns The numbers in input order, each with its label
+ */
+export function splitPhoneList(text: string): LabeledPhone[] {
+	if (!text || typeof text !== 'string') {
+		return [];
+	}
+
+	const separators = new RegExp(
+		`[\\n;,|]|\\s+\\/\\s+|${SLASH_BETWEEN_PATTERN.source}|\\s+(?:or|and)\\s+|${LABEL_START_PATTERN.source}|${LABEL_BETWEEN_PATTERN.source}`,
+		'i',
+	);
+
+	const phones: LabeledPhone[] = [];
+	for (const part of text.split(separators)) {
+		let phoneText = part.trim();
+		let labelWord = '';
+
+		const leading = phoneText.match(LEADING_LABEL_PATTERN);
+		if (leading) {
+			labelWord = leading[1];
+			phoneText = phoneText.slice(leading[0].length);
+		} else {
+			const trailing = phoneText.match(TRAILING_LABEL_PATTERN);
+			if (trailing) {
+				labelWord = trailing[1];
+				phoneText = phoneText.slice(0, phoneText.length - trailing[0].length);
+			}
+		}
+
+		// Pieces without digits are leftovers of the labels or separators
+		if (!/\d/.test(phoneText)) continue;
+
+		phones.push({
+			label: PHONE_LABEL_WORDS[labelWord.toLowerCase()] ?? 'other',
+			text: phoneText.trim(),
+		});
+	}
+	return phones;
+}
+
+/**
+ * Validates if a phone number appears to be in valid E.164 format.
+ *
+ * @param phone - The phone number to validate
+ * @returns True if the phone number is valid E.164 format
+ */
+export function isValidE164(phone: string): boolean {
+	// E.164 regex: + followed by 1-15 digits
+	const e164Regex = /^\+[1-9]\d{1,14}$/;
+	return e164Regex.test(phone);
+}
+
+// ============================================================================
+// EMAIL UTILITIES
+// ============================================================================
+
+/**
+ * Normalizes an email address:
+ * - Trims whitespace
+ * - Converts to lowercase
+ * - Removes common typos in domain extensions
+ *
+ * @param email - The email address to normalize
+ * @returns Normalized email address
+ */
+export function normalizeEmail(email: string): string {
+	if (!email || typeof email !== 'string') {
+		return email || '';
+	}
+
+	// Trim whitespace and convert to lowercase
+	const normalized = email.trim().toLowerCase();
+
+	// Basic validation: must contain @ and at least one character on each side
+	const atIndex = normalized.indexOf('@');
+	if (atIndex < 1 || atIndex === normalized.length - 1) {
+		return normalized; // Return as-is if invalid structure
+	}
+
+	// Common domain typo corrections
+	const domainCorrections: Record<string, string> = {
+		'gmial.com': 'gmail.com',
+		'gmal.com': 'gmail.com',
+		'gamil.com': 'gmail.com',
+		'gnail.com': 'gmail.com',
+		'gmaill.com': 'gmail.com',
+		'hotmal.com': 'hotmail.com',
+		'hotmai.com': 'hotmail.com',
+		'hotamil.com': 'hotmail.com',
+		'yahooo.com': 'yahoo.com',
+		'yaho.com': 'yahoo.com',
+		'outloo.com': 'outlook.com',
+		'outlok.com': 'outlook.com',
+	};
+
+	const domain = normalized.slice(atIndex + 1);
+	const correctedDomain = domainCorrections[domain] || domain;
+
+	return normalized.slice(0, atIndex + 1) + correctedDomain;
+}
+
+/**
+ * Validates if a string looks like a valid email address.
+ * Uses a practical regex that catches most invalid emails without being overly strict.
+ *
+ * @param email - The email to validate
+ * @returns True if the email appears valid
+ */
+export function isValidEmail(email: string): boolean {
+	if (!email || typeof email !== 'string') return false;
+
+	// Practical email regex - not RFC 5322 compliant but catches most issues
+	const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+	return emailRegex.test(email.trim().toLowerCase());
+}
+
+// ============================================================================
+// OBJECT KEY TRANSFORMATION UTILITIES
+// ============================================================================
+
+/**
+ * Recursively transforms all keys in an object to the specified case format.
+ * Handles nested objects and arrays.
+ *
+ * @param obj - The object to transform
+ * @param caseType - The target case format ('snake_case' or 'camelCase')
+ * @returns A new object with transformed keys
+ */
+export function transformObjectKeys(
+	obj: unknown,
+	caseType: 'snake_case' | 'camelCase'
+): unknown {
+	const transformer = caseType === 'snake_case' ? toSnakeCase : toCamelCase;
+
+	// Handle null/undefined
+	if (obj === null || obj === undefined) {
+		return obj;
+	}
+
+	// Handle arrays - transform each element
+	if (Array.isArray(obj)) {
+		return obj.map((item) => transformObjectKeys(item, caseType));
+	}
+
+	// Handle Date objects - return as-is
+	if (obj instanceof Date) {
+		return obj;
+	}
+
+	// Handle plain objects
+	if (typeof obj === 'object') {
+		const result: Record<string, unknown> = {};
+
+		for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
+			const newKey = transformer(key);
+			result[newKey] = transformObjectKeys(value, caseType);
+		}
+
+		return result;
+	}
+
+	// Primitive values - return as-is
+	return obj;
+}
+
+// ============================================================================
+// DEDUPLICATION UTILITIES
+// ============================================================================
+
+/**
+ * Represents a comparison result for fuzzy deduplication.
+ */
+export interface DuplicateGroup {
+	/** The index of the "master" record to keep */
+	keepIndex: number;
+	/** Indices of records identified as duplicates */
+	duplicateIndices: number[];
+	/** The similarity scores for each duplicate */
+	similarityScores: number[];
+	/** Per-field score breakdown for each duplicate against the master */
+	fieldScores: FieldScore[][];
+}
+
+/**
+ * Strategy used to limit which record pairs are scored during fuzzy deduplication.
+ * - none: every record is compared with every later record (O(n²))
+ * - prefix: only records sharing the first N characters of the blocking key are compared
+ * - phonetic: only records sharing the phonetic code of the blocking key are compared
+ * - sortedNeighborhood: records are sorted by the blocking key and compared within a sliding window
+ * - ngram: records are compared only if their blocking keys share enough character n-grams
+ */
+export type BlockingStrategy = 'none' | 'prefix' | 'phonetic' | 'sortedNeighborhood' | 'ngram';
+
+/**
+ * Configuration for candidate-pair blocking.
+ */
+export interface BlockingOptions {
+	/** Blocking strategy to apply */
+	strategy: BlockingStrategy;
+	/** Field used to build the blocking key (defaults to the first field checked) */
+	field?: string;
+	/** Number of leading characters used by the prefix strategy (default: 3) */
+	prefixLength?: number;
+	/** Number of following records each record is compared with by the sorted-neighborhood strategy (default: 10) */
+	windowSize?: number;
+	/** Character n-gram size used by the n-gram strategy (default: 3) */
+	ngramSize?: number;
+	/** Minimum number of shared n-grams for two records to be compared (default: 2) */
+	minSharedNgrams?: number;
+	/** Phonetic algorithm used by the phonetic strategy (default: soundex) */
+	phoneticAlgorithm?: PhoneticAlgorithm;
+}
+
+/**
+ * Counters describing how much work a fuzzy duplicate search performed.
+ */
+export interface ComparisonStats {
+	/** Number of pairs an exhaustive comparison would have scored */
+	totalPairs: number;
+	/** Number of pairs actually scored */
+	comparisonsMade: number;
+	/** Number of pairs that were never scored (blocking or already-matched records) */
+	comparisonsSkipped: number;
+}
+
+/**
+ * Comparator used to score a single field when comparing two records.
+ * - fuzzy: Jaro-Winkler for short strings, Levenshtein for longer ones
+ * - exact: 1.0 if the trimmed, lowercased values are equal, otherwise 0.0
+ * - jaroWinkler / levenshtein / damerauLevenshtein: the named similarity algorithm
+ * - tokenSet: word-order-insensitive token set similarity
+ * - tokenSort: similarity of the alphabetically sorted words
+ * - jaccardWord / jaccardChar: Jaccard similarity of words / character bigrams
+ * - cosine: cosine similarity of character trigrams
+ * - numeric: 1.0 within the tolerance, decaying linearly to 0.0 at twice the tolerance
+ * - date: like numeric, with the tolerance expressed in days
+ * - soundex / refinedSoundex / metaphone / doubleMetaphone / nysiis: words that sound alike
+ * - phone / email / name / address: normalized with the matching standardizer, then compared component-wise
+ */
+export type FieldComparator =
+	| 'fuzzy'
+	| 'exact'
+	| 'jaroWinkler'
+	| 'levenshtein'
+	| 'damerauLevenshtein'
+	| 'tokenSet'
+	| 'tokenSort'
+	| 'jaccardWord'
+	| 'jaccardChar'
+	| 'cosine'
+	| 'numeric'
+	| 'date'
+	| 'phone'
+	| 'email'
+	| 'name'
+	| 'address'
+	| PhoneticAlgorithm;
+
+/**
+ * How a single field contributes to the similarity of two records.
+ */
+export interface FieldComparison {
+	/** Field to compare */
+	field: string;
+	/** Field to compare against in the second record, when its name differs (default: field) */
+	otherField?: string;
+	/** Relative weight of this field in the combined score (default: 1) */
+	weight?: number;
+	/** Comparator used to score the field (default: fuzzy) */
+	comparator?: FieldComparator;
+	/** Allowed difference for numeric (units) and date (days) comparators (default: 0) */
+	tolerance?: number;
+	/** Whether this field alone must reach the threshold for records to be duplicates */
+	mustMatch?: boolean;
+}
+
+/**
+ * Score of a single field in a record comparison.
+ */
+export interface FieldScore {
+	/** Field that was compared */
+	field: string;
+	/** Comparator that produced the score */
+	comparator: FieldComparator;
+	/** Weight applied to the score */
+	weight: number;
+	/** Similarity score between 0.0 and 1.0 */
+	score: number;
+}
+
+/**
+ * Result of comparing two records field by field.
+ */
+export interface RecordComparison {
+	/** Weighted average of all compared fields */
+	score: number;
+	/** Per-field scores (fields empty on both records are omitted) */
+	fieldScores: FieldScore[];
+	/** True if a must-match field scored below the threshold */
+	mustMatchFailed: boolean;
+}
+
+/**
+ * Converts a date-like value (ISO string, timestamp, Date) to epoch milliseconds.
+ * Returns NaN when the value cannot be interpreted as a date.
+ */
+function toTimestamp(value: unknown): number {
+	if (value instanceof Date) return value.getTime();
+	if (typeof value === 'number') return value;
+	if (typeof value === 'string' && value.trim()) return new Date(value.trim()).getTime();
+	return NaN;
+}
+
+/**
+ * Scores a numeric difference against a tolerance: 1.0 within the tolerance,
+ * decaying linearly to 0.0 at twice the tolerance.
+ */
+function toleranceScore(difference: number, tolerance: number): number {
+	if (difference <= tolerance) return 1.0;
+	if (tolerance <= 0) return 0.0;
+	return Math.max(0, 1 - (difference - tolerance) / tolerance);
+}
+
+/**
+ * A component of a normalized value: both sides, relative weight, and how to score them.
+ */
+type ValueComponent = [string, string, number, (value1: string, value2: string) => number];
+
+/**
+ * Combines component scores as a weighted average. Components missing on either
+ * side are treated as unknown and left out. Returns NaN when nothing could be compared.
+ */
+function scoreComponents(components: ValueComponent[]): number {
+	let weightedSum = 0;
+	let totalWeight = 0;
+
+	for (const [component1, component2, weight, score] of components) {
+		if (!component1 || !component2) continue;
+		weightedSum += score(component1.toLowerCase(), component2.toLowerCase()) * weight;
+		totalWeight += weight;
+	}
+
+	return totalWeight > 0 ? weightedSum / totalWeight : NaN;
+}
+
+/**
+ * Scores two strings as 1.0 if equal, otherwise 0.0.
+ */
+function exactScore(value1: string, value2: string): number {
+	return value1 === value2 ? 1.0 : 0.0;
+}
+
+/**
+ * Scores two name parts, treating an initial as matching any name it abbreviates ("J." = "John").
+ */
+function namePartScore(value1: string, value2: string): number {
+	const part1 = value1.replace(/\./g, '');
+	const part2 = value2.replace(/\./g, '');
+	if (part1.length === 1 || part2.length === 1) return exactScore(part1[0], part2[0]);
+	return damerauLevenshteinSimilarity(part1, part2);
+}
+
+/**
+ * Scores two first names: nicknames of the same formal name ("Bob" = "Robert")
+ * score 1.0, otherwise like any other name part.
+ */
+function firstNameScore(value1: string, value2: string): number {
+	return areNicknameEquivalent(value1, value2) ? 1.0 : namePartScore(value1, value2);
+}
+
+/**
+ * Compares two phone numbers after formatting them to E.164, then by country code,
+ * area code, local number and extension. "(555) 000-1111" and "+1 555 000 1111" score 1.0.
+ */
+function comparePhoneValues(str1: string, str2: string): number {
+	const e164First = cleanPhoneNumber(str1);
+	const e164Second = cleanPhoneNumber(str2);
+	if (isValidE164(e164First) && e164First === e164Second) return 1.0;
+
+	const phone1 = parsePhoneNumber(str1);
+	const phone2 = parsePhoneNumber(str2);
+	if (!phone1.isValid || !phone2.isValid) {
+		const digits1 = str1.replace(/\D/g, '');
+		return digits1.length > 0 && digits1 === str2.replace(/\D/g, '') ? 1.0 : 0.0;
+	}
+
+	return scoreComponents([
+		[phone1.countryCode, phone2.countryCode, 1, exactScore],
+		[phone1.areaCode, phone2.areaCode, 2, exactScore],
+		[phone1.localNumber, phone2.localNumber, 4, exactScore],
+		[phone1.extension, phone2.extension, 1, exactScore],
+	]);
+}
+
+/**
+ * Compares two email addresses after normalizing them, scoring the local part
+ * (ignoring "+tag" sub-addresses) and the domain separately.
+ */
+function compareEmailValues(str1: string, str2: string): number {
+	const email1 = normalizeEmail(str1);
+	const email2 = normalizeEmail(str2);
+	if (email1 === email2) return 1.0;
+
+	const [local1, domain1] = email1.split('@');
+	const [local2, domain2] = email2.split('@');
+	if (!domain1 || !domain2) return levenshteinSimilarity(email1, email2);
+
+	return scoreComponents([
+		[local1.replace(/\+.*$/, ''), local2.replace(/\+.*$/, ''), 3, jaroWinklerSimilarity],
+		[domain1, domain2, 1, exactScore],
+	]);
+}
+
+/**
+ * Compares two personal names after parsing them, scoring first, middle and last name
+ * and suffix separately. Titles are ignored, initials match full names and nicknames
+ * match their formal names.
+ */
+function compareNameValues(str1: string, str2: string): number {
+	const name1 = parseName(str1);
+	const name2 = parseName(str2);
+
+	const score = scoreComponents([
+		[name1.firstName, name2.firstName, 2, firstNameScore],
+		[name1.middleName, name2.middleName, 1, namePartScore],
+		[name1.lastName, name2.lastName, 3, jaroWinklerSimilarity],
+		[name1.suffix.replace(/\./g, ''), name2.suffix.replace(/\./g, ''), 1, exactScore],
+	]);
+
+	return isNaN(score) ? tokenSetSimilarity(str1, str2) : score;
+}
+
+/**
+ * Compares two postal addresses after parsing them, scoring street number, street,
+ * unit, city, state, postal code and country separately.
+ */
+function compareAddressValues(str1: string, str2: string): number {
+	const address1 = parseAddress(str1);
+	const address2 = parseAddress(str2);
+
+	const score = scoreComponents([
+		[address1.streetNumber, address2.streetNumber, 2, exactScore],
+		[address1.streetName, address2.streetName, 3, tokenSetSimilarity],
+		[address1.unit, address2.unit, 1, exactScore],
+		[address1.city, address2.city, 2, jaroWinklerSimilarity],
+		[address1.state, address2.state, 1, exactScore],
+		[address1.postalCode.slice(0, 5), address2.postalCode.slice(0, 5), 2, exactScore],
+		[address1.country, address2.country, 1, exactScore],
+	]);
+
+	return isNaN(score) ? tokenSetSimilarity(str1, str2) : score;
+}
+
+/**
+ * Scores two field values with the given comparator.
+ *
+ * @param value1 - First value
+ * @param value2 - Second value
+ * @param comparator - Comparator to use (default: fuzzy)
+ * @param tolerance - Allowed difference for numeric and date comparators
+ * @returns Similarity score between 0.0 and 1.0
+ */
+export function compareValues(
+	value1: unknown,
+	value2: unknown,
+	comparator: FieldComparator = 'fuzzy',
+	tolerance: number = 0,
+): number {
+	const str1 = String(value1 ?? '');
+	const str2 = String(value2 ?? '');
+
+	switch (comparator) {
+		case 'exact':
+			return str1.trim().toLowerCase() === str2.trim().toLowerCase() ? 1.0 : 0.0;
+		case 'jaroWinkler':
+			return jaroWinklerSimilarity(str1, str2);
+		case 'levenshtein':
+			return levenshteinSimilarity(str1, str2);
+		case 'damerauLevenshtein':
+			return damerauLevenshteinSimilarity(str1, str2);
+		case 'tokenSet':
+			return tokenSetSimilarity(str1, str2);
+		case 'tokenSort':
+			return tokenSortSimilarity(str1, str2);
+		case 'jaccardWord':
+			return jaccardSimilarity(str1, str2, 'word');
+		case 'jaccardChar':
+			return jaccardSimilarity(str1, str2, 'char', 2);
+		case 'cosine':
+			return cosineSimilarity(str1, str2);
+		case 'soundex':
+		case 'refinedSoundex':
+		case 'metaphone':
+		case 'doubleMetaphone':
+		case 'nysiis':
+			return phoneticSimilarity(str1, str2, comparator);
+		case 'phone':
+			return comparePhoneValues(str1, str2);
+		case 'email':
+			return compareEmailValues(str1, str2);
+		case 'name':
+			return compareNameValues(str1, str2);
+		case 'address':
+			return compareAddressValues(str1, str2);
+		case 'numeric': {
+			const num1 = toNumber(value1, NaN);
+			const num2 = toNumber(value2, NaN);
+			if (isNaN(num1) || isNaN(num2)) return str1.trim() === str2.trim() ? 1.0 : 0.0;
+			return toleranceScore(Math.abs(num1 - num2), tolerance);
+		}
+		case 'date': {
+			const time1 = toTimestamp(value1);
+			const time2 = toTimestamp(value2);
+			if (isNaN(time1) || isNaN(time2)) return str1.trim() === str2.trim() ? 1.0 : 0.0;
+			return toleranceScore(Math.abs(time1 - time2) / 86400000, tolerance);
+		}
+		case 'fuzzy':
+		default:
+			return fuzzyMatch(str1, str2);
+	}
+}
+
+/**
+ * Compares two records field by field and combines the scores as a weighted average.
+ * Fields that are empty on both records are left out of the average.
+ *
+ * @param record1 - First record
+ * @param record2 - Second record
+ * @param comparisons - Fields to compare and how
+ * @param threshold - Score a must-match field has to reach (default: 0.8)
+ * @returns Combined score, per-field scores, and must-match outcome
+ */
+export function compareRecords(
+	record1: Record<string, unknown>,
+	record2: Record<string, unknown>,
+	comparisons: FieldComparison[],
+	threshold: number = 0.8,
+): RecordComparison {
+	const fieldScores: FieldScore[] = [];
+	let weightedTotal = 0;
+	let totalWeight = 0;
+	let mustMatchFailed = false;
+
+	for (const comparison of comparisons) {
+		const value1 = record1[comparison.field];
+		const value2 = record2[comparison.otherField || comparison.field];
+
+		// Skip empty field comparisons
+		if (!String(value1 ?? '') && !String(value2 ?? '')) continue;
+
+		const comparator = comparison.comparator ?? 'fuzzy';
+		const weight = comparison.weight ?? 1;
+		const score = compareValues(value1, value2, comparator, comparison.tolerance ?? 0);
+
+		fieldScores.push({ field: comparison.field, comparator, weight, score });
+		weightedTotal += score * weight;
+		totalWeight += weight;
+
+		if (comparison.mustMatch && score < threshold) {
+			mustMatchFailed = true;
+		}
+	}
+
+	return {
+		score: totalWeight > 0 ? weightedTotal / totalWeight : 0,
+		fieldScores,
+		mustMatchFailed,
+	};
+}
+
+/**
+ * Comparators that parse their values (numbers, dates, phones, emails, names,
+ * addresses) and must not see Unicode-normalized text.
+ */
+const UNNORMALIZED_COMPARATORS = new Set<FieldComparator>(['numeric', 'date', 'phone', 'email', 'name', 'address']);
+
+/**
+ * Returns copies of the records with every compared text field passed through
+ * {@link normalizeUnicode}. Fields scored by the numeric, date, phone, email, name
+ * and address comparators, and non-string values, are left untouched.
+ *
+ * @param records - Records to normalize
+ * @param comparisons - Fields that will be compared and how
+ * @param options - Normalization steps to apply
+ * @returns Normalized shallow copies, in input order
+ */
+export function normalizeComparedFields(
+	records: Record<string, unknown>[],
+	comparisons: FieldComparison[],
+	options: UnicodeNormalizationOptions = {},
+): Record<string, unknown>[] {
+	const fields = new Set(
+		comparisons
+			.filter((comparison) => !UNNORMALIZED_COMPARATORS.has(comparison.comparator ?? 'fuzzy'))
+			.flatMap((comparison) => [comparison.field, comparison.otherField || comparison.field]),
+	);
+
+	return records.map((record) => {
+		const normalized = { ...record };
+		for (const field of fields) {
+			const value = record[field];
+			if (typeof value === 'string') normalized[field] = normalizeUnicode(value, options);
+		}
+		return normalized;
+	});
+}
+
+/**
+ * A candidate record matched against a source record.
+ */
+export interface RecordMatch {
+	/** Index of the matched record in the candidate list */
+	index: number;
+	/** Combined (weighted) similarity score */
+	score: number;
+	/** Per-field scores */
+	fieldScores: FieldScore[];
+}
+
+/**
+ * Finds the candidate records that best match a source record (record linkage).
+ * Candidates below the threshold or failing a must-match field are ignored.
+ *
+ * @param record - The record to find matches for
+ * @param candidates - Records to search
+ * @param comparisons - Fields to compare and how (otherField names the candidate's field)
+ * @param threshold - Minimum combined score for a match (default: 0.8)
+ * @param limit - Maximum number of matches to return (default: 1)
+ * @returns Matches sorted by descending score (ties keep candidate order)
+ */
+export function findBestMatches(
+	record: Record<string, unknown>,
+	candidates: Record<string, unknown>[],
+	comparisons: FieldComparison[],
+	threshold: number = 0.8,
+	limit: number = 1,
+): RecordMatch[] {
+	const matches: RecordMatch[] = [];
+
+	candidates.forEach((candidate, index) => {
+		const { score, fieldScores, mustMatchFailed } = compareRecords(
+			record,
+			candidate,
+			comparisons,
+			threshold,
+		);
+		if (score >= threshold && !mustMatchFailed) {
+			matches.push({ index, score, fieldScores });
+		}
+	});
+
+	return matches
+		.sort((a, b) => b.score - a.score || a.index - b.index)
+		.slice(0, Math.max(1, limit));
+}
+
+/**
+ * How matching pairs are grouped into duplicate clusters.
+ * - greedy: a record joins the first earlier record it matches directly (input-order dependent)
+ * - connected: connected components of the similarity graph (single link, fully transitive)
+ * - averageLink: clusters merge only if their average cross-pair similarity reaches the threshold
+ * - completeLink: clusters merge only if every cross pair reaches the threshold
+ */
+export type ClusteringMode = 'greedy' | 'connected' | 'averageLink' | 'completeLink';
+
+/**
+ * Which record of a duplicate group survives as its master.
+ * - first: the first record in input order
+ * - mostComplete: the record with the most non-empty fields
+ * - newest / oldest: the record with the latest / earliest date in the keep field
+ * - highest / lowest: the record with the largest / smallest number in the keep field
+ * - longest: the record with the longest value in the keep field
+ */
+export type KeepStrategy = 'first' | 'mostComplete' | 'newest' | 'oldest' | 'highest' | 'lowest' | 'longest';
+
+/**
+ * Configuration for choosing the surviving record of each duplicate group.
+ */
+export interface KeepOptions {
+	/** Strategy used to pick the master */
+	strategy: KeepStrategy;
+	/** Field read by the date, numeric and longest-value strategies */
+	field?: string;
+}
+
+/**
+ * Options for fuzzy duplicate detection.
+ */
+export interface FuzzyDuplicateOptions {
+	/** Candidate-pair blocking configuration (default: compare all pairs) */
+	blocking?: BlockingOptions;
+	/** Per-field weights and comparators (default: equal weights, fuzzy comparator) */
+	fieldComparisons?: FieldComparison[];
+	/** How matching pairs are grouped (default: greedy) */
+	clustering?: ClusteringMode;
+	/** Which record of each group is kept as master (default: first) */
+	keep?: KeepOptions;
+	/** Unicode normalization applied to compared text fields before scoring (default: none) */
+	normalization?: UnicodeNormalizationOptions;
+	/** When provided, receives comparison counters after the search completes */
+	stats?: ComparisonStats;
+}
+
+/**
+ * Returns, for a given record index, the later record indices it should be compared with.
+ */
+type CandidateLookup = (index: number) => Iterable<number>;
+
+/**
+ * Scores a pair of records by index. `remember` asks graph clustering to cache the result.
+ */
+type PairScorer = (a: number, b: number, remember?: boolean) => RecordComparison;
+
+/**
+ * Normalizes a value for use as a blocking key: lowercase, letters and digits only.
+ */
+function toBlockingKey(value: unknown): string {
+	return String(value ?? '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Builds the set of character n-grams for a string.
+ */
+function characterNgrams(str: string, size: number): Set<string> {
+	const grams = new Set<string>();
+	if (str.length <= size) {
+		if (str.length > 0) grams.add(str);
+		return grams;
+	}
+	for (let i = 0; i <= str.length - size; i++) {
+		grams.add(str.slice(i, i + size));
+	}
+	return grams;
+}
+
+/**
+ * Builds a candidate lookup for the configured blocking strategy.
+ * Returns null when every pair should be compared.
+ */
+function buildCandidateLookup(
+	items: Record<string, unknown>[],
+	blocking: BlockingOptions,
+	defaultField: string,
+): CandidateLookup | null {
+	const field = blocking.field || defaultField;
+	const keys = items.map((item) => toBlockingKey(item[field]));
+
+	switch (blocking.strategy) {
+		case 'prefix':
+		case 'phonetic': {
+			const prefixLength = Math.max(1, blocking.prefixLength ?? 3);
+			const blocks = new Map<string, number[]>();
+			const blockOf: number[][] = [];
+			const positionOf: number[] = [];
+
+			for (let i = 0; i < items.length; i++) {
+				const blockKey =
+					blocking.strategy === 'prefix'
+						? keys[i].slice(0, prefixLength)
+						: encodeWord(keys[i], blocking.phoneticAlgorithm ?? 'soundex');
+				let block = blocks.get(blockKey);
+				if (!block) {
+					block = [];
+					blocks.set(blockKey, block);
+				}
+				positionOf[i] = block.length;
+				block.push(i);
+				blockOf[i] = block;
+			}
+
+			return (index) => blockOf[index].slice(positionOf[index] + 1);
+		}
+
+		case 'sortedNeighborhood': {
+			const windowSize = Math.max(2, blocking.windowSize ?? 10);
+			const order = items
+				.map((_, i) => i)
+				.sort((a, b) => (keys[a] < keys[b] ? -1 : keys[a] > keys[b] ? 1 : a - b));
+			const neighbors: Set<number>[] = items.map(() => new Set<number>());
+
+			for (let p = 0; p < order.length; p++) {
+				for (let q = p + 1; q <= Math.min(order.length - 1, p + windowSize); q++) {
+					const a = Math.min(order[p], order[q]);
+					const b = Math.max(order[p], order[q]);
+					neighbors[a].add(b);
+				}
+			}
+
+			return (index) => [...neighbors[index]].sort((a, b) => a - b);
+		}
+
+		case 'ngram': {
+			const ngramSize = Math.max(1, blocking.ngramSize ?? 3);
+			const minShared = Math.max(1, blocking.minSharedNgrams ?? 2);
+			const gramsOf = keys.map((key) => characterNgrams(key, ngramSize));
+			const index = new Map<string, number[]>();
+
+			gramsOf.forEach((grams, i) => {
+				for (const gram of grams) {
+					let postings = index.get(gram);
+					if (!postings) {
+						postings = [];
+						index.set(gram, postings);
+					}
+					postings.push(i);
+				}
+			});
+
+			return (i) => {
+				const sharedCounts = new Map<number, number>();
+				for (const gram of gramsOf[i]) {
+					for (const j of index.get(gram) as number[]) {
+						if (j > i) sharedCounts.set(j, (sharedCounts.get(j) ?? 0) + 1);
+					}
+				}
+
+				const candidates: number[] = [];
+				for (const [j, count] of sharedCounts) {
+					// Short keys cannot share more n-grams than they have
+					const required = Math.min(minShared, gramsOf[i].size, gramsOf[j].size);
+					if (count >= required) candidates.push(j);
+				}
+				return candidates.sort((a, b) => a - b);
+			};
+		}
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Returns the candidate lookup for a duplicate search: the blocking lookup when
+ * blocking applies, otherwise every later record.
+ */
+function candidatesLookup(
+	items: Record<string, unknown>[],
+	fieldsToCheck: string[],
+	blocking?: BlockingOptions,
+): CandidateLookup {
+	const candidatesFor = blocking ? buildCandidateLookup(items, blocking, fieldsToCheck[0]) : null;
+	return (i: number): Iterable<number> => candidatesFor
+		? candidatesFor(i)
+		: Array.from({ length: items.length - i - 1 }, (_, k) => i + 1 + k);
+}
+
+/**
+ * Identifies duplicate records in an array based on fuzzy matching of specified fields.
+ *
+ * @param items - Array of records to check for duplicates
+ * @param fieldsToCheck - Array of field names to use for comparison
+ * @param threshold - Similarity threshold (0.0 to 1.0), records above this are duplicates
+ * @param options - Blocking, per-field comparison, clustering, keep strategy, normalization and optional stats receiver
+ * @returns Array of duplicate groups, where each group contains the master and its duplicates
+ */
+export function findFuzzyDuplicates(
+	items: Record<string, unknown>[],
+	fieldsToCheck: string[],
+	threshold: number = 0.8,
+	options: FuzzyDuplicateOptions = {},
+): DuplicateGroup[] {
+	const comparisons = options.fieldComparisons ?? fieldsToCheck.map((field) => ({ field }));
+	const scored = options.normalization
+		? normalizeComparedFields(items, comparisons, options.normalization)
+		: items;
+	const candidatesOf = candidatesLookup(scored, fieldsToCheck, options.blocking);
+	const clustering = options.clustering ?? 'greedy';
+
+	const isMatch = (comparison: RecordComparison) =>
+		comparison.score >= threshold && !comparison.mustMatchFailed;
+
+	// Graph clustering revisits pairs for link constraints, so it caches matching pairs
+	// and any pair it asks to remember (non-matching pairs from the initial scan are not kept)
+	const scoreCache = new Map<number, RecordComparison>();
+	let comparisonsMade = 0;
+	const comparePair: PairScorer = (a, b, remember = true) => {
+		const [i, j] = a < b ? [a, b] : [b, a];
+		const key = i * items.length + j;
+		let comparison = scoreCache.get(key);
+		if (!comparison) {
+			comparison = compareRecords(scored[i], scored[j], comparisons, threshold);
+			comparisonsMade++;
+			if (clustering !== 'greedy' && (remember || isMatch(comparison))) {
+				scoreCache.set(key, comparison);
+			}
+		}
+		return comparison;
+	};
+	let duplicateGroups = clustering === 'greedy'
+		? findGreedyGroups(items.length, candidatesOf, comparePair, isMatch)
+		: findClusteredGroups(items.length, candidatesOf, comparePair, isMatch, clustering, threshold);
+
+	if (options.keep && options.keep.strategy !== 'first') {
+		duplicateGroups = applyKeepStrategy(items, duplicateGroups, options.keep, comparePair);
+	}
+
+	if (options.stats) {
+		const totalPairs = (items.length * (items.length - 1)) / 2;
+		options.stats.totalPairs = totalPairs;
+		options.stats.comparisonsMade = comparisonsMade;
+		// Link constraints may re-score pairs, so scorings can exceed the pair count
+		options.stats.comparisonsSkipped = Math.max(0, totalPairs - comparisonsMade);
+	}
+
+	return duplicateGroups;
+}
+
+/**
+ * Ranks a record for a keep strategy; higher is better. Records without a usable
+ * value rank lowest (-Infinity).
+ */
+function keepRank(record: Record<string, unknown>, keep: KeepOptions): number {
+	const value = keep.field ? record[keep.field] : undefined;
+	let rank: number;
+
+	switch (keep.strategy) {
+		case 'mostComplete':
+			return Object.values(record).filter((fieldValue) => !isEmptyValue(fieldValue)).length;
+		case 'newest':
+			rank = toTimestamp(value);
+			break;
+		case 'oldest':
+			rank = -toTimestamp(value);
+			break;
+		case 'highest':
+			rank = toNumber(value, NaN);
+			break;
+		case 'lowest':
+			rank = -toNumber(value, NaN);
+			break;
+		case 'longest':
+			return isEmptyValue(value) ? -Infinity : String(value).length;
+		default:
+			return 0;
+	}
+
+	return isNaN(rank) ? -Infinity : rank;
+}
+
+/**
+ * Re-elects the master of each duplicate group with the keep strategy (ties go to
+ * the earliest record) and re-scores the duplicates against the new master.
+ */
+function applyKeepStrategy(
+	items: Record<string, unknown>[],
+	duplicateGroups: DuplicateGroup[],
+	keep: KeepOptions,
+	comparePair: PairScorer,
+): DuplicateGroup[] {
+	return duplicateGroups
+		.map((group) => {
+			const members = [group.keepIndex, ...group.duplicateIndices].sort((a, b) => a - b);
+			let keepIndex = members[0];
+			let bestRank = keepRank(items[keepIndex], keep);
+			for (const index of members.slice(1)) {
+				const rank = keepRank(items[index], keep);
+				if (rank > bestRank) {
+					keepIndex = index;
+					bestRank = rank;
+				}
+			}
+
+			if (keepIndex === group.keepIndex) return group;
+
+			const duplicateIndices = members.filter((index) => index !== keepIndex);
+			const comparisons = duplicateIndices.map((index) => comparePair(keepIndex, index));
+			return {
+				keepIndex,
+				duplicateIndices,
+				similarityScores: comparisons.map((comparison) => comparison.score),
+				fieldScores: comparisons.map((comparison) => comparison.fieldScores),
+			};
+		})
+		.sort((a, b) => a.keepIndex - b.keepIndex);
+}
+
+/**
+ * Greedy grouping: each record not yet claimed becomes a master and claims every
+ * later record that matches it directly. Results depend on input order.
+ */
+function findGreedyGroups(
+	itemCount: number,
+	candidatesOf: (index: number) => Iterable<number>,
+	comparePair: PairScorer,
+	isMatch: (comparison: RecordComparison) => boolean,
+): DuplicateGroup[] {
+	const duplicateGroups: DuplicateGroup[] = [];
+	const processedIndices = new Set<number>();
+
+	for (let i = 0; i < itemCount; i++) {
+		// Skip if already marked as a duplicate
+		if (processedIndices.has(i)) continue;
+
+		const currentGroup: DuplicateGroup = {
+			keepIndex: i,
+			duplicateIndices: [],
+			similarityScores: [],
+			fieldScores: [],
+		};
+
+		for (const j of candidatesOf(i)) {
+			// Skip if already processed
+			if (processedIndices.has(j)) continue;
+
+			// Calculate combined (weighted) similarity across all fields
+			const comparison = comparePair(i, j);
+
+			// If above threshold, mark as duplicate
+			if (isMatch(comparison)) {
+				currentGroup.duplicateIndices.push(j);
+				currentGroup.similarityScores.push(comparison.score);
+				currentGroup.fieldScores.push(comparison.fieldScores);
+				processedIndices.add(j);
+			}
+		}
+
+		// Only add groups that have duplicates
+		if (currentGroup.duplicateIndices.length > 0) {
+			duplicateGroups.push(currentGroup);
+		}
+	}
+
+	return duplicateGroups;
+}
+
+/**
+ * Graph-based grouping: matching pairs form a similarity graph whose edges are
+ * merged strongest first (union-find). Connected mode joins every chain A≈B≈C;
+ * average and complete link only merge two clusters if the average or minimum
+ * similarity across all their cross pairs reaches the threshold.
+ */
+function findClusteredGroups(
+	itemCount: number,
+	candidatesOf: (index: number) => Iterable<number>,
+	comparePair: PairScorer,
+	isMatch: (comparison: RecordComparison) => boolean,
+	clustering: ClusteringMode,
+	threshold: number,
+): DuplicateGroup[] {
+	// Build the similarity graph from all candidate pairs
+	const edges: { i: number; j: number; score: number }[] = [];
+	for (let i = 0; i < itemCount; i++) {
+		for (const j of candidatesOf(i)) {
+			const comparison = comparePair(i, j, false);
+			if (isMatch(comparison)) {
+				edges.push({ i, j, score: comparison.score });
+			}
+		}
+	}
+	edges.sort((a, b) => b.score - a.score || a.i - b.i || a.j - b.j);
+
+	// Union-find with member lists for link constraints
+	const parent = Array.from({ length: itemCount }, (_, i) => i);
+	const members = new Map<number, number[]>();
+	const find = (x: number): number => {
+		while (parent[x] !== x) {
+			parent[x] = parent[parent[x]];
+			x = parent[x];
+		}
+		return x;
+	};
+	const membersOf = (root: number) => members.get(root) ?? [root];
+
+	for (const { i, j } of edges) {
+		const rootI = find(i);
+		const rootJ = find(j);
+		if (rootI === rootJ) continue;
+
+		const clusterI = membersOf(rootI);
+		const clusterJ = membersOf(rootJ);
+
+		if (clustering !== 'connected') {
+			let total = 0;
+			let allMatch = true;
+			for (const a of clusterI) {
+				for (const b of clusterJ) {
+					const comparison = comparePair(a, b);
+					total += comparison.score;
+					if (!isMatch(comparison)) allMatch = false;
+				}
+			}
+			const average = total / (clusterI.length * clusterJ.length);
+			if (clustering === 'completeLink' && !allMatch) continue;
+			if (clustering === 'averageLink' && average < threshold) continue;
+		}
+
+		parent[rootJ] = rootI;
+		members.set(rootI, [...clusterI, ...clusterJ]);
+		members.delete(rootJ);
+	}
+
+	// Each multi-record cluster becomes a group, mastered by its first record
+	const duplicateGroups: DuplicateGroup[] = [];
+	for (const cluster of members.values()) {
+		const sorted = [...cluster].sort((a, b) => a - b);
+		const [keepIndex, ...duplicateIndices] = sorted;
+		const comparisons = duplicateIndices.map((index) => comparePair(keepIndex, index));
+		duplicateGroups.push({
+			keepIndex,
+			duplicateIndices,
+			similarityScores: comparisons.map((comparison) => comparison.score),
+			fieldScores: comparisons.map((comparison) => comparison.fieldScores),
+		});
+	}
+
+	return duplicateGroups.sort((a, b) => a.keepIndex - b.keepIndex);
+}
+
+/**
+ * Removes fuzzy duplicate records from an array, keeping the master of each group
+ * (the first occurrence unless a keep strategy is given).
+ *
+ * @param items - Array of records to deduplicate
+ * @param fieldsToCheck - Array of field names to use for comparison
+ * @param threshold - Similarity threshold (0.0 to 1.0)
+ * @param options - Blocking, per-field comparison, clustering, keep strategy and normalization configuration
+ * @returns Deduplicated array and metadata about removed items
+ */
+export function deduplicateFuzzy(
+	items: Record<string, unknown>[],
+	fieldsToCheck: string[],
+	threshold: number = 0.8,
+	options: FuzzyDuplicateOptions = {},
+): {
+	deduplicated: Record<string, unknown>[];
+	removedCount: number;
+	duplicateGroups: DuplicateGroup[];
+	stats: ComparisonStats;
+} {
+	const stats: ComparisonStats = { totalPairs: 0, comparisonsMade: 0, comparisonsSkipped: 0 };
+	const duplicateGroups = findFuzzyDuplicates(items, fieldsToCheck, threshold, {
+		...options,
+		stats,
+	});
+
+	// Collect all indices to remove
+	const indicesToRemove = new Set<number>();
+	for (const group of duplicateGroups) {
+		for (const dupIndex of group.duplicateIndices) {
+			indicesToRemove.add(dupIndex);
+		}
+	}
+
+	// Filter out duplicates
+	const deduplicated = items.filter((_, index) => !indicesToRemove.has(index));
+
+	return {
+		deduplicated,
+		removedCount: indicesToRemove.size,
+		duplicateGroups,
+		stats,
+	};
+}
+
+/**
+ * A record pair sampled for a similarity histogram bucket.
+ */
+export interface SimilaritySample {
+	/** Index of the first record */
+	indexA: number;
+	/** Index of the second record (the best match of the first) */
+	indexB: number;
+	/** Combined similarity score of the pair */
+	score: number;
+}
+
+/**
+ * One bucket of the best-match score histogram.
+ */
+export interface SimilarityBucket {
+	/** Lower bound of the bucket (inclusive) */
+	from: number;
+	/** Upper bound of the bucket (exclusive, except for the last bucket) */
+	to: number;
+	/** Number of records whose best match falls in the bucket */
+	count: number;
+	/** Sample pairs from the bucket, in input order */
+	samples: SimilaritySample[];
+}
+
+/**
+ * Outcome of deduplicating at a given threshold.
+ */
+export interface ThresholdImpact {
+	/** Threshold the records were grouped at */
+	threshold: number;
+	/** Number of duplicate groups found */
+	duplicateGroups: number;
+	/** Number of records that would be removed */
+	removedCount: number;
+}
+
+/**
+ * Threshold calibration report for fuzzy deduplication.
+ */
+export interface SimilarityAnalysis {
+	/** Best-match score of each record (null when it had no candidate pair) */
+	bestMatchScores: (number | null)[];
+	/** Histogram of best-match scores in buckets of 0.05 */
+	histogram: SimilarityBucket[];
+	/** Records removed at each threshold from 0.70 to 0.99 */
+	thresholds: ThresholdImpact[];
+}
+
+/**
+ * Scores every candidate pair once and reports, without removing anything, how the
+ * records would deduplicate: a histogram of each record's best-match score with
+ * sample pairs per bucket, and how many records each threshold from 0.70 to 0.99
+ * would remove with the configured clustering mode.
+ *
+ * @param items - Array of records to analyze
+ * @param fieldsToCheck - Array of field names to use for comparison
+ * @param options - Blocking, per-field comparison, clustering, normalization and optional stats receiver
+ * @param sampleSize - Maximum number of sample pairs per histogram bucket (default: 3)
+ * @returns Best-match scores, histogram and per-threshold removal counts
+ */
+export function analyzeSimilarity(
+	items: Record<string, unknown>[],
+	fieldsToCheck: string[],
+	options: FuzzyDuplicateOptions = {},
+	sampleSize: number = 3,
+): SimilarityAnalysis {
+	const comparisons: FieldComparison[] = options.fieldComparisons ?? fieldsToCheck.map((field) => ({ field }));
+	const scored = options.normalization
+		? normalizeComparedFields(items, comparisons, options.normalization)
+		: items;
+	const candidatesOf = candidatesLookup(scored, fieldsToCheck, options.blocking);
+	const clustering = options.clustering ?? 'greedy';
+	const mustMatchFields = new Set(
+		comparisons.filter((comparison) => comparison.mustMatch).map((comparison) => comparison.field),
+	);
+
+	// Only pairs scoring at least the lowest replayed threshold are kept, as plain numbers,
+	// so memory grows with the matches rather than with every compared pair; the lowest
+	// must-match field score is only stored when it is below the score
+	const minThreshold = 0.7;
+	const scores = new Map<number, number>();
+	const mustMatchScores = new Map<number, number>();
+	let comparisonsMade = 0;
+	const scorePair = (a: number, b: number): number => {
+		const [i, j] = a < b ? [a, b] : [b, a];
+		const comparison = compareRecords(scored[i], scored[j], comparisons);
+		comparisonsMade++;
+		if (comparison.score < minThreshold) return comparison.score;
+
+		const key = i * items.length + j;
+		scores.set(key, comparison.score);
+		const mustMatchScore = Math.min(
+			...comparison.fieldScores
+				.filter((fieldScore) => mustMatchFields.has(fieldScore.field))
+				.map((fieldScore) => fieldScore.score),
+		);
+		if (mustMatchScore < comparison.score) mustMatchScores.set(key, mustMatchScore);
+		return comparison.score;
+	};
+
+	// Best match of every record across its candidate pairs
+	const bestMatchScores: (number | null)[] = items.map(() => null);
+	const bestMatchIndices: number[] = items.map(() => -1);
+	for (let i = 0; i < items.length; i++) {
+		for (const j of candidatesOf(i)) {
+			const score = scorePair(i, j);
+			for (const [index, other] of [[i, j], [j, i]]) {
+				const best = bestMatchScores[index];
+				if (best === null || score > best) {
+					bestMatchScores[index] = score;
+					bestMatchIndices[index] = other;
+				}
+			}
+		}
+	}
+
+	const bucketCount = 20;
+	const histogram: SimilarityBucket[] = Array.from({ length: bucketCount }, (_, k) => ({
+		from: k / bucketCount,
+		to: (k + 1) / bucketCount,
+		count: 0,
+		samples: [],
+	}));
+	const sampledPairs = new Set<number>();
+	bestMatchScores.forEach((score, i) => {
+		if (score === null) return;
+
+		const bucket = histogram[Math.min(bucketCount - 1, Math.floor(score * bucketCount + 1e-9))];
+		bucket.count++;
+
+		const j = bestMatchIndices[i];
+		const pairKey = Math.min(i, j) * items.length + Math.max(i, j);
+		if (bucket.samples.length < sampleSize && !sampledPairs.has(pairKey)) {
+			sampledPairs.add(pairKey);
+			bucket.samples.push({ indexA: i, indexB: j, score });
+		}
+	});
+
+	// Replay the clustering at each threshold from the kept scores
+	const thresholds: ThresholdImpact[] = [];
+	for (let step = 70; step <= 99; step++) {
+		const threshold = step / 100;
+		const comparePair: PairScorer = (a, b) => {
+			const [i, j] = a < b ? [a, b] : [b, a];
+			const key = i * items.length + j;
+			// Pairs below every replayed threshold never match; only average link
+			// needs their actual score, which is recomputed without being kept
+			const score = scores.get(key)
+				?? (clustering === 'averageLink' ? compareRecords(scored[i], scored[j], comparisons).score : 0);
+			return {
+				score,
+				fieldScores: [],
+				mustMatchFailed: (mustMatchScores.get(key) ?? Infinity) < threshold,
+			};
+		};
+		const isMatch = (comparison: RecordComparison) =>
+			comparison.score >= threshold && !comparison.mustMatchFailed;
+
+		const duplicateGroups = clustering === 'greedy'
+			? findGreedyGroups(items.length, candidatesOf, comparePair, isMatch)
+			: findClusteredGroups(items.length, candidatesOf, comparePair, isMatch, clustering, threshold);
+
+		thresholds.push({
+			threshold,
+			duplicateGroups: duplicateGroups.length,
+			removedCount: duplicateGroups.reduce((total, group) => total + group.duplicateIndices.length, 0),
+		});
+	}
+
+	if (options.stats) {
+		const totalPairs = (items.length * (items.length - 1)) / 2;
+		options.stats.totalPairs = totalPairs;
+		options.stats.comparisonsMade = comparisonsMade;
+		options.stats.comparisonsSkipped = Math.max(0, totalPairs - comparisonsMade);
+	}
+
+	return { bestMatchScores, histogram, thresholds };
+}
+
+/**
+ * Cluster membership of a single record, derived from duplicate groups.
+ */
+export interface DuplicateClusterTag {
+	/** 1-based cluster number, in order of each cluster's first appearance */
+	clusterId: number;
+	/** Whether the record is the master (kept) record of its cluster */
+	isMaster: boolean;
+	/** Similarity to the cluster master (1.0 for the master itself) */
+	similarityToMaster: number;
+}
+
+/**
+ * Assigns every record a cluster based on duplicate groups. Records without
+ * duplicates form a single-record cluster and are their own master.
+ *
+ * @param itemCount - Number of records that were checked
+ * @param duplicateGroups - Duplicate groups found for those records
+ * @returns One cluster tag per record, in input order
+ */
+export function assignDuplicateClusters(
+	itemCount: number,
+	duplicateGroups: DuplicateGroup[],
+): DuplicateClusterTag[] {
+	const membership = new Map<number, { master: number; similarity: number }>();
+	for (const group of duplicateGroups) {
+		group.duplicateIndices.forEach((index, k) => {
+			membership.set(index, { master: group.keepIndex, similarity: group.similarityScores[k] });
+		});
+	}
+
+	const clusterIds = new Map<number, number>();
+	const tags: DuplicateClusterTag[] = [];
+
+	for (let i = 0; i < itemCount; i++) {
+		const member = membership.get(i);
+		const master = member ? member.master : i;
+
+		if (!clusterIds.has(master)) {
+			clusterIds.set(master, clusterIds.size + 1);
+		}
+
+		tags.push({
+			clusterId: clusterIds.get(master) as number,
+			isMaster: !member,
+			similarityToMaster: member ? member.similarity : 1.0,
+		});
+	}
+
+	return tags;
 }
 
 /**
- * Validates if a string looks like a valid email address.
- * Uses a practical regex that catches most invalid emails without being overly strict.
- *
- * @param email - The email to validate
- * @returns True if the email appears valid
+ * Compact match key of a record remembered across executions.
  */
-export function isValidEmail(email: string): boolean {
-	if (!email || typeof email !== 'string') return false;
+export interface SeenRecord {
+	/** Trimmed values of the compared fields */
+	values: Record<string, string>;
+	/** When the record was first seen (epoch milliseconds) */
+	seenAt: number;
+	/** Trimmed value of the blocking field, kept when blocking is configured */
+	blockingValue?: string;
+}
 
-	// Practical email regex - not RFC 5322 compliant but catches most issues
-	const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
-	return emailRegex.test(email.trim().toLowerCase());
+/**
+ * A remembered record that an incoming record matched.
+ */
+export interface SeenRecordMatch {
+	/** Index of the matched record in the remembered list */
+	index: number;
+	/** Similarity score between 0.0 and 1.0 */
+	score: number;
 }
 
-// ============================================================================
-// OBJECT KEY TRANSFORMATION UTILITIES
-// ============================================================================
+/**
+ * Converts a field value to the trimmed string kept in a remembered record.
+ */
+function toSeenValue(value: unknown): string {
+	return (typeof value === 'object' ? JSON.stringify(value) : String(value)).trim();
+}
 
 /**
- * Recursively transforms all keys in an object to the specified case format.
- * Handles nested objects and arrays.
+ * Builds the compact match key remembered for a record: only the compared fields
+ * (and the blocking field, if any), as trimmed strings.
  *
- * @param obj - The object to transform
- * @param caseType - The target case format ('snake_case' or 'camelCase')
- * @returns A new object with transformed keys
+ * @param record - Record to remember
+ * @param comparisons - Fields compared during deduplication
+ * @param seenAt - Time the record was seen (epoch milliseconds)
+ * @param blockingField - Field whose value is kept for blocking (optional)
+ * @returns Remembered record
  */
-export function transformObjectKeys(
-	obj: unknown,
-	caseType: 'snake_case' | 'camelCase'
-): unknown {
-	const transformer = caseType === 'snake_case' ? toSnakeCase : toCamelCase;
-
-	// Handle null/undefined
-	if (obj === null || obj === undefined) {
-		return obj;
-	}
-
-	// Handle arrays - transform each element
-	if (Array.isArray(obj)) {
-		return obj.map((item) => transformObjectKeys(item, caseType));
+export function toSeenRecord(
+	record: Record<string, unknown>,
+	comparisons: FieldComparison[],
+	seenAt: number,
+	blockingField?: string,
+): SeenRecord {
+	const values: Record<string, string> = {};
+	for (const { field } of comparisons) {
+		const value = record[field];
+		if (!isEmptyValue(value)) {
+			values[field] = toSeenValue(value);
+		}
 	}
 
-	// Handle Date objects - return as-is
-	if (obj instanceof Date) {
-		return obj;
+	const seenRecord: SeenRecord = { values, seenAt };
+	if (blockingField && !isEmptyValue(record[blockingField])) {
+		seenRecord.blockingValue = toSeenValue(record[blockingField]);
 	}
+	return seenRecord;
+}
 
-	// Handle plain objects
-	if (typeof obj === 'object') {
-		const result: Record<string, unknown> = {};
+/**
+ * Drops remembered records older than the retention window and keeps at most
+ * the newest maxSize records.
+ *
+ * @param seen - Remembered records
+ * @param now - Current time (epoch milliseconds)
+ * @param retentionMs - Retention window in milliseconds (0 keeps records forever)
+ * @param maxSize - Maximum number of remembered records (0 for no limit)
+ * @returns Remaining records, oldest first
+ */
+export function pruneSeenRecords(
+	seen: SeenRecord[],
+	now: number,
+	retentionMs: number,
+	maxSize: number,
+): SeenRecord[] {
+	const kept = seen
+		.filter((record) => retentionMs <= 0 || now - record.seenAt <= retentionMs)
+		.sort((a, b) => a.seenAt - b.seenAt);
+
+	return maxSize > 0 && kept.length > maxSize ? kept.slice(kept.length - maxSize) : kept;
+}
 
-		for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-			const newKey = transformer(key);
-			result[newKey] = transformObjectKeys(value, caseType);
+/**
+ * Matches records against remembered records from earlier executions. Identical
+ * match keys are found by lookup; other records are scored like fuzzy duplicates,
+ * only against the remembered records the blocking strategy pairs them with.
+ *
+ * @param records - Incoming records
+ * @param seen - Remembered records
+ * @param comparisons - Fields to compare and how
+ * @param threshold - Similarity threshold (0.0 to 1.0)
+ * @param blocking - Candidate-pair blocking configuration (default: compare with every remembered record)
+ * @returns Best remembered match per record, or null if none reaches the threshold
+ */
+export function findSeenRecords(
+	records: Record<string, unknown>[],
+	seen: SeenRecord[],
+	comparisons: FieldComparison[],
+	threshold: number = 0.8,
+	blocking?: BlockingOptions,
+): (SeenRecordMatch | null)[] {
+	const fingerprint = (values: Record<string, string>) =>
+		comparisons.map(({ field }) => (values[field] ?? '').toLowerCase()).join('\u0000');
+
+	const seenByFingerprint = new Map<string, number>();
+	seen.forEach((record, index) => {
+		seenByFingerprint.set(fingerprint(record.values), index);
+	});
+
+	// Block incoming and remembered records together: incoming records come first, so the
+	// later candidates of an incoming record include every remembered record in its block
+	let seenCandidatesOf = (_: number): Iterable<number> => seen.keys();
+	if (blocking) {
+		const field = blocking.field || comparisons[0]?.field;
+		const keyed = [
+			...records.map((record) => ({ [field]: record[field] })),
+			...seen.map((remembered) => ({ [field]: remembered.blockingValue ?? remembered.values[field] })),
+		];
+		const candidatesFor = buildCandidateLookup(keyed, blocking, field);
+		if (candidatesFor) {
+			seenCandidatesOf = (i) => [...candidatesFor(i)]
+				.filter((j) => j >= records.length)
+				.map((j) => j - records.length);
 		}
-
-		return result;
 	}
 
-	// Primitive values - return as-is
-	return obj;
+	return records.map((record, i) => {
+		const key = toSeenRecord(record, comparisons, 0);
+		if (Object.keys(key.values).length === 0) return null;
+
+		const exactIndex = seenByFingerprint.get(fingerprint(key.values));
+		if (exactIndex !== undefined) return { index: exactIndex, score: 1.0 };
+
+		let best: SeenRecordMatch | null = null;
+		for (const index of seenCandidatesOf(i)) {
+			const comparison = compareRecords(key.values, seen[index].values, comparisons, threshold);
+			if (comparison.score >= threshold && !comparison.mustMatchFailed && (!best || comparison.score > best.score)) {
+				best = { index, score: comparison.score };
+			}
+		}
+		return best;
+	});
 }
 
-// ============================================================================
-// DEDUPLICATION UTILITIES
-// ============================================================================
+/**
+ * Survivorship rule deciding which value a merged "golden record" keeps for a field.
+ * - firstNonEmpty: first non-empty value, in master-then-duplicates order
+ * - mostRecent: value from the record with the latest date in the rule's date field
+ * - longest: longest value (by string length)
+ * - mostFrequent: value occurring most often (ties go to the earliest occurrence)
+ * - concatUnique: array of all unique non-empty values
+ */
+export type MergeRule = 'firstNonEmpty' | 'mostRecent' | 'longest' | 'mostFrequent' | 'concatUnique';
 
 /**
- * Represents a comparison result for fuzzy deduplication.
+ * Survivorship rule for a single field.
  */
-export interface DuplicateGroup {
-	/** The index of the "master" record to keep */
-	keepIndex: number;
-	/** Indices of records identified as duplicates */
-	duplicateIndices: number[];
-	/** The similarity scores for each duplicate */
-	similarityScores: number[];
+export interface FieldMergeRule {
+	/** Field the rule applies to */
+	field: string;
+	/** Rule used to pick the surviving value */
+	rule: MergeRule;
+	/** Date field used by the mostRecent rule */
+	dateField?: string;
 }
 
 /**
- * Identifies duplicate records in an array based on fuzzy matching of specified fields.
- *
- * @param items - Array of records to check for duplicates
- * @param fieldsToCheck - Array of field names to use for comparison
- * @param threshold - Similarity threshold (0.0 to 1.0), records above this are duplicates
- * @returns Array of duplicate groups, where each group contains the master and its duplicates
+ * Checks whether a value should be treated as missing when merging records.
  */
-export function findFuzzyDuplicates(
-	items: Record<string, unknown>[],
-	fieldsToCheck: string[],
-	threshold: number = 0.8
-): DuplicateGroup[] {
-	const duplicateGroups: DuplicateGroup[] = [];
-	const processedIndices = new Set<number>();
+function isEmptyValue(value: unknown): boolean {
+	if (value === undefined || value === null) return true;
+	if (typeof value === 'string') return value.trim() === '';
+	if (Array.isArray(value)) return value.length === 0;
+	if (isObject(value)) return Object.keys(value).length === 0;
+	return false;
+}
 
-	for (let i = 0; i < items.length; i++) {
-		// Skip if already marked as a duplicate
-		if (processedIndices.has(i)) continue;
+/**
+ * Builds a stable comparison key for a value (used for frequency counting and uniqueness).
+ */
+function valueKey(value: unknown): string {
+	return typeof value === 'string' ? value.trim().toLowerCase() : JSON.stringify(value);
+}
 
-		const currentGroup: DuplicateGroup = {
-			keepIndex: i,
-			duplicateIndices: [],
-			similarityScores: [],
-		};
+/**
+ * Picks the surviving value for one field from a set of duplicate records.
+ */
+function resolveFieldValue(
+	records: Record<string, unknown>[],
+	field: string,
+	rule: MergeRule,
+	dateField?: string,
+): unknown {
+	const candidates = records
+		.map((record) => ({ record, value: record[field] }))
+		.filter(({ value }) => !isEmptyValue(value));
 
-		for (let j = i + 1; j < items.length; j++) {
-			// Skip if already processed
-			if (processedIndices.has(j)) continue;
+	if (candidates.length === 0) {
+		return records[0][field];
+	}
 
-			// Calculate combined similarity across all fields
-			let totalSimilarity = 0;
-			let fieldCount = 0;
+	switch (rule) {
+		case 'mostRecent': {
+			if (!dateField) return candidates[0].value;
+			let best = candidates[0];
+			let bestTime = toTimestamp(best.record[dateField]);
+			for (const candidate of candidates.slice(1)) {
+				const time = toTimestamp(candidate.record[dateField]);
+				if (!isNaN(time) && (isNaN(bestTime) || time > bestTime)) {
+					best = candidate;
+					bestTime = time;
+				}
+			}
+			return best.value;
+		}
 
-			for (const field of fieldsToCheck) {
-				const value1 = String(items[i][field] ?? '');
-				const value2 = String(items[j][field] ?? '');
+		case 'longest': {
+			let best = candidates[0];
+			for (const candidate of candidates.slice(1)) {
+				if (String(candidate.value).length > String(best.value).length) {
+					best = candidate;
+				}
+			}
+			return best.value;
+		}
 
-				// Skip empty field comparisons
-				if (!value1 && !value2) continue;
+		case 'mostFrequent': {
+			const counts = new Map<string, { value: unknown; count: number }>();
+			for (const { value } of candidates) {
+				const key = valueKey(value);
+				const entry = counts.get(key);
+				if (entry) {
+					entry.count++;
+				} else {
+					counts.set(key, { value, count: 1 });
+				}
+			}
+			let best: { value: unknown; count: number } | undefined;
+			for (const entry of counts.values()) {
+				if (!best || entry.count > best.count) best = entry;
+			}
+			return best?.value;
+		}
 
-				totalSimilarity += fuzzyMatch(value1, value2);
-				fieldCount++;
+		case 'concatUnique': {
+			const seen = new Set<string>();
+			const values: unknown[] = [];
+			for (const { value } of candidates) {
+				for (const part of Array.isArray(value) ? value : [value]) {
+					const key = valueKey(part);
+					if (isEmptyValue(part) || seen.has(key)) continue;
+					seen.add(key);
+					values.push(part);
+				}
 			}
+			return values;
+		}
 
-			// Calculate average similarity across fields
-			const averageSimilarity = fieldCount > 0 ? totalSimilarity / fieldCount : 0;
+		case 'firstNonEmpty':
+		default:
+			return candidates[0].value;
+	}
+}
 
-			// If above threshold, mark as duplicate
-			if (averageSimilarity >= threshold) {
-				currentGroup.duplicateIndices.push(j);
-				currentGroup.similarityScores.push(averageSimilarity);
-				processedIndices.add(j);
+/**
+ * Merges a group of duplicate records into a single "golden record" using survivorship rules.
+ * Fields without an explicit rule use the default rule.
+ *
+ * @param records - Records to merge, master first followed by its duplicates
+ * @param rules - Per-field survivorship rules
+ * @param defaultRule - Rule for fields without an explicit rule (default: firstNonEmpty)
+ * @param defaultDateField - Date field used by mostRecent rules that don't name one
+ * @returns The merged record
+ */
+export function mergeRecords(
+	records: Record<string, unknown>[],
+	rules: FieldMergeRule[] = [],
+	defaultRule: MergeRule = 'firstNonEmpty',
+	defaultDateField?: string,
+): Record<string, unknown> {
+	if (records.length === 0) return {};
+
+	const rulesByField = new Map(rules.map((rule) => [rule.field, rule]));
+
+	// Preserve field order of the master, then append fields only present on duplicates
+	const fields: string[] = [];
+	const seenFields = new Set<string>();
+	for (const record of records) {
+		for (const field of Object.keys(record)) {
+			if (!seenFields.has(field)) {
+				seenFields.add(field);
+				fields.push(field);
 			}
 		}
+	}
 
-		// Only add groups that have duplicates
-		if (currentGroup.duplicateIndices.length > 0) {
-			duplicateGroups.push(currentGroup);
-		}
+	const merged: Record<string, unknown> = {};
+	for (const field of fields) {
+		const fieldRule = rulesByField.get(field);
+		merged[field] = resolveFieldValue(
+			records,
+			field,
+			fieldRule?.rule ?? defaultRule,
+			fieldRule?.dateField || defaultDateField,
+		);
 	}
 
-	return duplicateGroups;
+	return merged;
+}
+
+// ============================================================================
+// REFERENCE LIST STANDARDIZATION
+// ============================================================================
+
+/**
+ * A value that can be matched in a reference list, and the canonical value it stands for.
+ */
+export interface ReferenceEntry {
+	/** Value compared against the input (a canonical value or one of its aliases) */
+	value: string;
+	/** Canonical value returned on a match */
+	canonical: string;
+}
+
+/**
+ * Best reference list match for a value.
+ */
+export interface ReferenceMatch {
+	/** Canonical value of the best match */
+	canonical: string;
+	/** Reference value (canonical or alias) that matched */
+	matchedValue: string;
+	/** Similarity score between 0.0 and 1.0 */
+	score: number;
 }
 
 /**
- * Removes fuzzy duplicate records from an array, keeping the first occurrence.
+ * Parses a reference list with one entry per line. A line is either a canonical
+ * value ("United States") or an alias mapping ("USA => United States").
+ * Canonical values of alias mappings are matchable themselves.
  *
- * @param items - Array of records to deduplicate
- * @param fieldsToCheck - Array of field names to use for comparison
- * @param threshold - Similarity threshold (0.0 to 1.0)
- * @returns Deduplicated array and metadata about removed items
+ * @param text - Reference list text
+ * @returns Reference entries, without duplicates
  */
-export function deduplicateFuzzy(
-	items: Record<string, unknown>[],
-	fieldsToCheck: string[],
-	threshold: number = 0.8
-): {
-	deduplicated: Record<string, unknown>[];
-	removedCount: number;
-	duplicateGroups: DuplicateGroup[];
-} {
-	const duplicateGroups = findFuzzyDuplicates(items, fieldsToCheck, threshold);
+export function parseReferenceList(text: string): ReferenceEntry[] {
+	const entries: ReferenceEntry[] = [];
+	const seen = new Set<string>();
+
+	const addEntry = (value: string, canonical: string) => {
+		const key = `${value.toLowerCase()}\u0000${canonical}`;
+		if (!value || !canonical || seen.has(key)) return;
+		seen.add(key);
+		entries.push({ value, canonical });
+	};
 
-	// Collect all indices to remove
-	const indicesToRemove = new Set<number>();
-	for (const group of duplicateGroups) {
-		for (const dupIndex of group.duplicateIndices) {
-			indicesToRemove.add(dupIndex);
+	for (const line of (text || '').split(/\r?\n/)) {
+		const separatorIndex = line.indexOf('=>');
+		if (separatorIndex >= 0) {
+			const alias = line.slice(0, separatorIndex).trim();
+			const canonical = line.slice(separatorIndex + 2).trim();
+			addEntry(alias, canonical);
+			addEntry(canonical, canonical);
+		} else {
+			addEntry(line.trim(), line.trim());
 		}
 	}
 
-	// Filter out duplicates
-	const deduplicated = items.filter((_, index) => !indicesToRemove.has(index));
+	return entries;
+}
 
-	return {
-		deduplicated,
-		removedCount: indicesToRemove.size,
-		duplicateGroups,
-	};
+/**
+ * Finds the reference entry most similar to a value. Case-insensitive exact
+ * matches win immediately with a score of 1.0.
+ *
+ * @param value - Value to look up
+ * @param entries - Reference entries to match against
+ * @param comparator - Comparator used to score candidates (default: fuzzy)
+ * @param normalization - Optional Unicode normalization applied to both sides before
+ * scoring (ignored for comparators that parse their values)
+ * @returns Best match, or null if the value or reference list is empty
+ */
+export function findReferenceMatch(
+	value: string,
+	entries: ReferenceEntry[],
+	comparator: FieldComparator = 'fuzzy',
+	normalization?: UnicodeNormalizationOptions,
+): ReferenceMatch | null {
+	const input = (value || '').trim();
+	if (!input || entries.length === 0) return null;
+
+	const normalize = normalization && !UNNORMALIZED_COMPARATORS.has(comparator)
+		? (text: string) => normalizeUnicode(text, normalization)
+		: (text: string) => text;
+	const key = normalize(input);
+	const lowerKey = key.toLowerCase();
+	let best: ReferenceMatch | null = null;
+
+	for (const entry of entries) {
+		const entryKey = normalize(entry.value);
+		if (entryKey.toLowerCase() === lowerKey) {
+			return { canonical: entry.canonical, matchedValue: entry.value, score: 1.0 };
+		}
+
+		const score = compareValues(key, entryKey, comparator);
+		if (!best || score > best.score) {
+			best = { canonical: entry.canonical, matchedValue: entry.value, score };
+		}
+	}
+
+	return best;
 }
 
 // ============================================================================
@@ -763,6 +4693,50 @@ const NAME_SUFFIXES = new Set([
 	'ret', 'retired', 'usn', 'usmc', 'usaf', 'usa',
 ]);
 
+/**
+ * Common English nicknames and the formal first names they stand for.
+ * Ambiguous nicknames list every formal name, most common first.
+ */
+const NICKNAMES: Record<string, string[]> = {
+	abby: ['abigail'], abe: ['abraham'], al: ['albert', 'alan', 'alfred'], alex: ['alexander', 'alexandra'],
+	alf: ['alfred'], andy: ['andrew'], annie: ['anne', 'ann'], art: ['arthur'],
+	barb: ['barbara'], bea: ['beatrice'], becky: ['rebecca'], ben: ['benjamin'],
+	benny: ['benjamin'], bert: ['albert', 'herbert'], beth: ['elizabeth'], betsy: ['elizabeth'],
+	betty: ['elizabeth'], bill: ['william'], billy: ['william'], bob: ['robert'],
+	bobby: ['robert'], brad: ['bradley'], cathy: ['catherine'], charlie: ['charles'],
+	chris: ['christopher', 'christine'], chuck: ['charles'], cindy: ['cynthia'], cliff: ['clifford'],
+	connie: ['constance'], dan: ['daniel'], danny: ['daniel'], dave: ['david'],
+	davy: ['david'], deb: ['deborah'], debbie: ['deborah'], dick: ['richard'],
+	don: ['donald'], donny: ['donald'], dot: ['dorothy'], doug: ['douglas'],
+	ed: ['edward', 'edwin'], eddie: ['edward'], ellie: ['eleanor'], fanny: ['frances'],
+	fran: ['frances'], fred: ['frederick'], freddie: ['frederick'], gabe: ['gabriel'],
+	gene: ['eugene'], gerry: ['gerald'], greg: ['gregory'], gus: ['augustus'],
+	hal: ['harold', 'henry'], hank: ['henry'], jack: ['john'], jackie: ['jacqueline'],
+	jake: ['jacob'], jeff: ['jeffrey'], jen: ['jennifer'], jenny: ['jennifer'],
+	jerry: ['gerald', 'jerome'], jim: ['james'], jimmy: ['james'], joe: ['joseph'],
+	joey: ['joseph'], johnny: ['john'], jon: ['jonathan', 'john'], josh: ['joshua'],
+	kate: ['katherine', 'catherine'], kathy: ['katherine', 'kathleen'], katie: ['katherine'], ken: ['kenneth'],
+	kenny: ['kenneth'], kim: ['kimberly'], kitty: ['katherine'], larry: ['lawrence'],
+	len: ['leonard'], lenny: ['leonard'], liz: ['elizabeth'], lizzie: ['elizabeth'],
+	lou: ['louis'], maggie: ['margaret'], mandy: ['amanda'], manny: ['manuel'],
+	marge: ['margaret'], matt: ['matthew'], meg: ['margaret'], mel: ['melvin', 'melissa'],
+	mick: ['michael'], mickey: ['michael'], mike: ['michael'], mikey: ['michael'],
+	mitch: ['mitchell'], nate: ['nathan', 'nathaniel'], ned: ['edward'], nell: ['eleanor', 'helen'],
+	nick: ['nicholas'], nicky: ['nicholas'], pam: ['pamela'], pat: ['patrick', 'patricia'],
+	patty: ['patricia'], peg: ['margaret'], peggy: ['margaret'], pete: ['peter'],
+	phil: ['philip'], ray: ['raymond'], rick: ['richard'], ricky: ['richard'],
+	rob: ['robert'], robbie: ['robert'], ron: ['ronald'], ronnie: ['ronald'],
+	rosie: ['rose'], rudy: ['rudolph'], sally: ['sarah'], sam: ['samuel', 'samantha'],
+	sammy: ['samuel'], sandy: ['sandra'], sasha: ['alexandra', 'alexander'], sid: ['sidney'],
+	steve: ['steven', 'stephen'], stu: ['stuart'], sue: ['susan'], susie: ['susan'],
+	ted: ['theodore', 'edward'], teddy: ['theodore'], terry: ['terence', 'teresa'], tess: ['teresa'],
+	tim: ['timothy'], timmy: ['timothy'], tom: ['thomas'], tommy: ['thomas'],
+	tony: ['anthony'], trish: ['patricia'], trudy: ['gertrude'], val: ['valerie'],
+	vic: ['victor'], vicky: ['victoria'], vince: ['vincent'], walt: ['walter'],
+	wes: ['wesley'], will: ['william'], willy: ['william'], zach: ['zachary'],
+	zack: ['zachary'],
+};
+
 /**
  * Parses a full name string into its component parts.
  * Handles various formats: "John Doe", "Dr. John Smith Jr.", "Smith, John", etc.
@@ -848,6 +4822,42 @@ export function parseName(fullName: string): ParsedName {
 	return result;
 }
 
+/**
+ * Returns the formal first name for a nickname ("Bob" -> "Robert"), or the name
+ * itself if it is not a known nickname. Ambiguous nicknames resolve to their most
+ * common formal name.
+ *
+ * @param firstName - The first name or nickname
+ * @returns Formal first name in title case, or the input unchanged
+ */
+export function formalFirstName(firstName: string): string {
+	const formalNames = NICKNAMES[(firstName || '').trim().toLowerCase().replace(/\./g, '')];
+	if (!formalNames) return firstName || '';
+	return formalNames[0].charAt(0).toUpperCase() + formalNames[0].slice(1);
+}
+
+/**
+ * Checks whether two first names are nicknames of, or the same as, a shared formal
+ * name ("Bob" / "Robert", "Bob" / "Rob").
+ *
+ * @param name1 - First name
+ * @param name2 - Second name
+ * @returns True if the names are nickname-equivalent
+ */
+export function areNicknameEquivalent(name1: string, name2: string): boolean {
+	const expand = (name: string) => {
+		const key = (name || '').trim().toLowerCase().replace(/\./g, '');
+		return new Set([key, ...(NICKNAMES[key] ?? [])]);
+	};
+	const names1 = expand(name1);
+	const names2 = expand(name2);
+
+	for (const name of names1) {
+		if (name && names2.has(name)) return true;
+	}
+	return false;
+}
+
 /**
  * Parses a username into likely name components.
  * Handles formats like: john_doe, john.doe, johndoe, JohnDoe
@@ -939,18 +4949,70 @@ export interface ParsedPhoneNumber {
 	international: string;
 	/** Country code (1, 44, etc.) */
 	countryCode: string;
+	/** ISO 3166-1 alpha-2 region of the number (US, GB, etc.), empty if unknown */
+	region: string;
 	/** Area/region code */
 	areaCode: string;
 	/** Local number without area code */
 	localNumber: string;
 	/** Extension if present */
 	extension: string;
+	/** Line type detected from the number ranges of the country */
+	type: PhoneNumberType;
 	/** Whether the number appears valid */
 	isValid: boolean;
+	/** Why the number is or is not valid */
+	validation: PhoneValidation;
+}
+
+/**
+ * Outcome of validating a phone number.
+ * - VALID: the length fits the country and the number lies in a known range
+ * - POSSIBLE_BUT_UNVERIFIED: the length fits, but the range is not in the table
+ * - TOO_SHORT / TOO_LONG: fewer or more digits than the country allows (or than E.164's 7–15)
+ * - INVALID_COUNTRY_CODE: the calling code is not assigned
+ * - INVALID_AREA_CODE: a NANP area code that cannot exist (N11, 0xx, 1xx)
+ * - NOT_A_NUMBER: the input has no digits
+ */
+export type PhoneValidationCode =
+	| 'VALID'
+	| 'POSSIBLE_BUT_UNVERIFIED'
+	| 'TOO_SHORT'
+	| 'TOO_LONG'
+	| 'INVALID_COUNTRY_CODE'
+	| 'INVALID_AREA_CODE'
+	| 'NOT_A_NUMBER';
+
+/**
+ * Structured validation result of a phone number
+ */
+export interface PhoneValidation {
+	/** Validation code */
+	code: PhoneValidationCode;
+	/** Human-readable explanation */
+	message: string;
+}
+
+/**
+ * Builds the validation result of a number from its code and explanation.
+ */
+function phoneValidation(code: PhoneValidationCode, message: string): PhoneValidation {
+	return { code, message };
+}
+
+/**
+ * Splits a local number into readable groups: up to four digits stay together,
+ * eight digits become two groups of four, longer numbers lead with groups of three.
+ */
+function groupDigits(digits: string): string[] {
+	if (digits.length <= 4) return digits ? [digits] : [];
+	if (digits.length === 8) return [digits.slice(0, 4), digits.slice(4)];
+	return [digits.slice(0, 3), ...groupDigits(digits.slice(3))];
 }
 
 /**
  * Parses a phone number into its component parts with multiple format outputs.
+ * The calling code, area code length and validity come from the numbering plan table.
  *
  * @param phone - The phone number to parse
  * @param defaultCountryCode - Default country code if not detected
@@ -966,10 +5028,13 @@ export function parsePhoneNumber(
 		national: '',
 		international: '',
 		countryCode: '',
+		region: '',
 		areaCode: '',
 		localNumber: '',
 		extension: '',
+		type: 'unknown',
 		isValid: false,
+		validation: phoneValidation('NOT_A_NUMBER', 'No phone number given'),
 	};
 
 	if (!phone || typeof phone !== 'string') {
@@ -987,77 +5052,64 @@ export function parsePhoneNumber(
 	const hasPlus = phone.trim().startsWith('+');
 	const digitsOnly = phone.replace(/\D/g, '');
 
-	if (digitsOnly.length < 7 || digitsOnly.length > 15) {
+	if (digitsOnly.length === 0) {
+		result.validation = phoneValidation('NOT_A_NUMBER', 'The value contains no digits');
+		return result;
+	}
+	if (digitsOnly.length < 7) {
+		result.validation = phoneValidation('TOO_SHORT', `${digitsOnly.length} digits, at least 7 are needed`);
 		return result;
 	}
 
-	let countryCode = defaultCountryCode;
-	let nationalNumber = digitsOnly;
+	// Split into calling code and national number using the numbering plan table
+	// (this also drops an exit prefix such as 00 or 011)
+	const { countryCode, nationalNumber, plan } = splitPhoneDigits(digitsOnly, hasPlus, defaultCountryCode);
 
-	// Detect country code
-	if (hasPlus) {
-		// Has + prefix, extract country code
-		// Common country codes: 1 (US/CA), 44 (UK), 91 (India), 86 (China), 49 (Germany)
-		if (digitsOnly.startsWith('1') && digitsOnly.length === 11) {
-			countryCode = '1';
-			nationalNumber = digitsOnly.slice(1);
-		} else if (digitsOnly.startsWith('44') && digitsOnly.length >= 12) {
-			countryCode = '44';
-			nationalNumber = digitsOnly.slice(2);
-		} else if (digitsOnly.startsWith('91') && digitsOnly.length === 12) {
-			countryCode = '91';
-			nationalNumber = digitsOnly.slice(2);
-		} else if (digitsOnly.startsWith('86') && digitsOnly.length === 13) {
-			countryCode = '86';
-			nationalNumber = digitsOnly.slice(2);
-		} else if (digitsOnly.startsWith('49') && digitsOnly.length >= 11) {
-			countryCode = '49';
-			nationalNumber = digitsOnly.slice(2);
-		} else {
-			// Assume first 1-3 digits are country code
-			if (digitsOnly.length > 10) {
-				const ccLength = digitsOnly.length - 10;
-				countryCode = digitsOnly.slice(0, Math.min(ccLength, 3));
-				nationalNumber = digitsOnly.slice(Math.min(ccLength, 3));
-			}
-		}
-	} else if (digitsOnly.length === 11 && digitsOnly.startsWith('1')) {
-		// US/Canada with country code
-		countryCode = '1';
-		nationalNumber = digitsOnly.slice(1);
-	} else if (digitsOnly.length === 11 && digitsOnly.startsWith('0')) {
-		// UK national format (0XXXXXXXXXX)
-		countryCode = '44';
-		nationalNumber = digitsOnly.slice(1);
+	// No calling code fits the number (e.g., a UK national number with default 1)
+	if (!countryCode) {
+		result.validation = validatePhoneDigits(countryCode, nationalNumber, plan);
+		return result;
+	}
+
+	const e164Length = countryCode.length + nationalNumber.length;
+	if (e164Length > 15) {
+		result.validation = phoneValidation('TOO_LONG', `${e164Length} digits, E.164 allows at most 15`);
+		return result;
 	}
 
 	result.countryCode = countryCode;
+	result.region = plan?.region ?? '';
 
-	// Extract area code and local number (assuming 10-digit format for simplicity)
-	if (nationalNumber.length >= 10) {
-		result.areaCode = nationalNumber.slice(0, 3);
-		result.localNumber = nationalNumber.slice(3);
-	} else if (nationalNumber.length >= 7) {
-		result.localNumber = nationalNumber;
-	}
+	// Extract area code and local number (10-digit split when the plan does not apply)
+	const areaCodeLength = plan && fitsPlan(plan, nationalNumber)
+		? areaCodeLengthOf(plan, nationalNumber)
+		: countryCode && nationalNumber.length >= 10 ? 3 : 0;
+	result.areaCode = nationalNumber.slice(0, areaCodeLength);
+	result.localNumber = nationalNumber.slice(areaCodeLength);
 
 	// Build formatted outputs
 	result.e164 = `+${countryCode}${nationalNumber}`;
 
-	// National format (US style: (XXX) XXX-XXXX)
-	if (nationalNumber.length === 10) {
+	if (countryCode === '1' && nationalNumber.length === 10) {
+		// NANP style: (XXX) XXX-XXXX and +1 XXX XXX XXXX
 		result.national = `(${nationalNumber.slice(0, 3)}) ${nationalNumber.slice(3, 6)}-${nationalNumber.slice(6)}`;
-	} else if (nationalNumber.length === 7) {
+		result.international = `+${countryCode} ${nationalNumber.slice(0, 3)} ${nationalNumber.slice(3, 6)} ${nationalNumber.slice(6)}`;
+	} else if (countryCode === '1' && nationalNumber.length === 7) {
 		result.national = `${nationalNumber.slice(0, 3)}-${nationalNumber.slice(3)}`;
+		result.international = `+${countryCode} ${nationalNumber}`;
+	} else if (countryCode) {
+		// Area code, then the local number in groups (e.g., +33 6 1234 5678 / 06 1234 5678);
+		// a 0 trunk prefix is written with the area code, longer ones stand apart ("06 1 234 5678")
+		const groups = [result.areaCode, ...groupDigits(result.localNumber)].filter((group) => group);
+		const trunkPrefix = plan?.trunkPrefix ?? '';
+		result.national = trunkPrefix === '0'
+			? `0${groups.join(' ')}`
+			: [trunkPrefix, ...groups].filter((group) => group).join(' ');
+		result.international = `+${countryCode} ${groups.join(' ')}`;
 	} else {
+		// Unassigned calling code: the digits cannot be split
 		result.national = nationalNumber;
-	}
-
-	// International format (+X XXX XXX XXXX)
-	if (nationalNumber.length === 10) {
-		result.international = `+${countryCode} ${nationalNumber.slice(0, 3)} ${nationalNumber.slice(3, 6)} ${nationalNumber.slice(6)}`;
-	} else {
-		result.international = `+${countryCode} ${nationalNumber}`;
+		result.international = `+${nationalNumber}`;
 	}
 
 	// Add extension to formats if present
@@ -1066,11 +5118,100 @@ export function parsePhoneNumber(
 		result.international += ` ext. ${result.extension}`;
 	}
 
-	result.isValid = isValidE164(result.e164);
+	result.validation = validatePhoneDigits(countryCode, nationalNumber, plan);
+	result.isValid = isValidE164(result.e164)
+		&& (result.validation.code === 'VALID' || result.validation.code === 'POSSIBLE_BUT_UNVERIFIED');
+	result.type = result.isValid ? detectPhoneType(countryCode, nationalNumber) : 'unknown';
 
 	return result;
 }
 
+/**
+ * Validates a number split into calling code and national number against its numbering plan.
+ */
+function validatePhoneDigits(countryCode: string, nationalNumber: string, plan?: NumberingPlan): PhoneValidation {
+	if (!plan) {
+		return phoneValidation('INVALID_COUNTRY_CODE', countryCode
+			? `Calling code +${countryCode} is not assigned`
+			: 'The number does not start with an assigned calling code');
+	}
+	const [minLength, maxLength] = lengthsOf(plan, nationalNumber);
+	if (nationalNumber.length < minLength) {
+		return phoneValidation('TOO_SHORT', `${nationalNumber.length} digits after +${countryCode}, ${plan.region} numbers have at least ${minLength}`);
+	}
+	if (nationalNumber.length > maxLength) {
+		return phoneValidation('TOO_LONG', `${nationalNumber.length} digits after +${countryCode}, ${plan.region} numbers have at most ${maxLength}`);
+	}
+
+	// NANP area codes never start with 0 or 1, and N11 codes are service codes (411, 911)
+	const areaCode = nationalNumber.slice(0, 3);
+	if (countryCode === '1' && (/^[01]/.test(areaCode) || /^[2-9]11$/.test(areaCode))) {
+		return phoneValidation('INVALID_AREA_CODE', `Area code ${areaCode} does not exist in the North American Numbering Plan`);
+	}
+
+	return detectPhoneType(countryCode, nationalNumber) === 'unknown'
+		? phoneValidation('POSSIBLE_BUT_UNVERIFIED', `The length fits ${plan.region}, but its number ranges are not known`)
+		: phoneValidation('VALID', `Valid ${plan.region} number`);
+}
+
+/**
+ * Output format for a phone number.
+ * - e164: +15550001111
+ * - international: +1 555 000 1111
+ * - national: (555) 000-1111
+ * - rfc3966: tel:+1-555-000-1111 (RFC 3966 URI, extension as ;ext=)
+ * - digits: 15550001111 (calling code and national number, no symbols)
+ * - custom: a pattern whose # placeholders are filled with digits
+ */
+export type PhoneFormat = 'e164' | 'international' | 'national' | 'rfc3966' | 'digits' | 'custom';
+
+/**
+ * Formats a parsed phone number. A custom pattern is filled with the national number
+ * when its # count matches the national number's length, otherwise with the calling
+ * code and national number; if neither fits, the E.164 form is returned.
+ *
+ * @param parsed - Parsed phone number
+ * @param format - Output format
+ * @param pattern - Pattern for the custom format (e.g., "(###) ###-####")
+ * @returns Formatted phone number, or the original input if it could not be parsed
+ */
+export function formatPhoneNumber(
+	parsed: ParsedPhoneNumber,
+	format: PhoneFormat,
+	pattern: string = '',
+): string {
+	if (!parsed.e164) return parsed.original;
+
+	const digits = parsed.e164.slice(1);
+	const nationalNumber = digits.slice(parsed.countryCode.length);
+	const extensionSuffix = parsed.extension ? ` ext. ${parsed.extension}` : '';
+
+	switch (format) {
+		case 'international':
+			return parsed.international;
+		case 'national':
+			return parsed.national;
+		case 'rfc3966': {
+			const international = parsed.international.slice(0, parsed.international.length - extensionSuffix.length);
+			const extension = parsed.extension ? `;ext=${parsed.extension}` : '';
+			return `tel:${international.replace(/ /g, '-')}${extension}`;
+		}
+		case 'digits':
+			return digits;
+		case 'custom': {
+			const placeholders = (pattern.match(/#/g) || []).length;
+			const fill = [nationalNumber, digits].find((candidate) => candidate.length === placeholders);
+			if (!fill) return parsed.e164;
+
+			let position = 0;
+			return pattern.replace(/#/g, () => fill[position++]) + extensionSuffix;
+		}
+		case 'e164':
+		default:
+			return parsed.e164;
+	}
+}
+
 // ============================================================================
 // TEXT EXTRACTION & FORMATTING UTILITIES
 // ============================================================================
@@ -1083,6 +5224,8 @@ export interface ExtractedData {
 	emails: string[];
 	/** All phone numbers found */
 	phones: string[];
+	/** Vanity numbers as written in the text (their converted form is in phones) */
+	vanityPhones: string[];
 	/** All URLs found */
 	urls: string[];
 	/** All dates found (various formats) */
@@ -1097,17 +5240,27 @@ export interface ExtractedData {
 	numbers: string[];
 }
 
+/**
+ * Options for extracting data from text
+ */
+export interface ExtractOptions {
+	/** Also find vanity numbers written in capitals ("1-800-FLOWERS") and convert them to digits */
+	convertVanity?: boolean;
+}
+
 /**
  * Extracts structured data from plain text.
  * Finds emails, phone numbers, URLs, dates, amounts, hashtags, mentions, and numbers.
  *
  * @param text - The text to extract data from
+ * @param options - Extraction options
  * @returns ExtractedData with all found items
  */
-export function extractFromText(text: string): ExtractedData {
+export function extractFromText(text: string, options: ExtractOptions = {}): ExtractedData {
 	const result: ExtractedData = {
 		emails: [],
 		phones: [],
+		vanityPhones: [],
 		urls: [],
 		dates: [],
 		amounts: [],
@@ -1124,10 +5277,30 @@ export function extractFromText(text: string): ExtractedData {
 	const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
 	result.emails = [...new Set(text.match(emailRegex) || [])];
 
+	// Extract vanity numbers (1-800-FLOWERS), converted to digits, and blank them out
+	// so the digit pattern below does not pick up their numeric part. A vanity number
+	// starts with a toll-free prefix ("1-800-", "(888) "), an area code and exchange
+	// ("(212) 555-") or an exchange ("555-CALL-NOW"), and has 7 characters after the area
+	// code, so "The 2024 NASA report", "100 APPLES" and "Order 123-ABCD" are not phone numbers
+	let phoneText = text;
+	if (options.convertVanity) {
+		const vanityRegex = /(?<![\d-])(?:\+?1[-.\s]?)?(?:(?:\(8(?:00|33|44|55|66|77|88)\)\s?|8(?:00|33|44|55|66|77|88)[-.\s])(?=[A-Z\d-]*[A-Z])[A-Z\d]{2,}|(?:\(\d{3}\)\s?|\d{3}[-.\s])?\d{3}-(?=[A-Z\d-]*[A-Z])[A-Z\d]{2,})(?:-[A-Z\d]+)*/g;
+		const isVanityPhone = (match: string) =>
+			convertVanityNumber(match.trim()).replace(/\D/g, '').replace(/^1/, '').length >= 10;
+		const vanityMatches = (text.match(vanityRegex) || [])
+			.filter(isVanityPhone)
+			.map(p => p.trim());
+		result.vanityPhones = [...new Set(vanityMatches)];
+		phoneText = text.replace(vanityRegex, (match) => isVanityPhone(match) ? ' '.repeat(match.length) : match);
+	}
+
 	// Extract phone numbers (various formats)
 	const phoneRegex = /(?:\+?1[-.\s]?)?(?:\(?\d{3}\)?[-.\s]?)?\d{3}[-.\s]?\d{4}(?:\s*(?:ext\.?|x)\s*\d+)?/gi;
-	const phoneMatches = text.match(phoneRegex) || [];
-	result.phones = [...new Set(phoneMatches.map(p => p.trim()).filter(p => p.replace(/\D/g, '').length >= 7))];
+	const phoneMatches = phoneText.match(phoneRegex) || [];
+	result.phones = [...new Set([
+		...phoneMatches.map(p => p.trim()).filter(p => p.replace(/\D/g, '').length >= 7),
+		...result.vanityPhones.map(p => convertVanityNumber(p)),
+	])];
 
 	// Extract URLs
 	const urlRegex = /https?:\/\/[^\s<>"{}|\\^`[\]]+/gi;